@@ -21,6 +21,7 @@ export interface FieldDescriptionInput {
   typeRatio: Record<string, number>;
   presentRatio: number;
   examples: string[];
+  enumValues?: string[]; // 관찰 값과 비율 (예: "active(60%)")
   foreignKeyContext?: string[];
 }
 
@@ -0,0 +1,125 @@
+import type { Collection, Document, ReadPreferenceLike } from 'mongodb';
+import { logger } from '../../cli/logger';
+import { BsonType } from '../../types/bson';
+import type { ExactPathStats } from '../../types/schema';
+import { splitPath, unescapeKey } from '../../core/flatten/escaping';
+import { MAP_WILDCARD } from '../../core/flatten/mapKeys';
+
+// 전체 스캔 집계 제한 시간
+const DEFAULT_MAX_TIME_MS = 300_000;
+
+const BSON_TYPES = new Set<string>(Object.values(BsonType));
+
+export interface ExactStatsOptions {
+  maxTimeMS: number;
+  readPreference: ReadPreferenceLike; // 운영 부하를 줄이기 위해 secondary 우선
+}
+
+const DEFAULT_OPTIONS: ExactStatsOptions = {
+  maxTimeMS: DEFAULT_MAX_TIME_MS,
+  readPreference: 'secondaryPreferred',
+};
+
+/**
+ * 전체 스캔 통계 결과
+ */
+export interface ExactStatsResult {
+  totalDocs: number;
+  paths: Map<string, ExactPathStats>;
+}
+
+/**
+ * 집계 결과 행 ($group 출력)
+ */
+export interface ExactStatsRow {
+  _id: { p: number; t: string };
+  count: number;
+}
+
+/**
+ * 평탄화 path를 집계 필드 경로로 변환
+ * 배열/맵 와일드카드나 '.'/'$'가 포함된 키는 필드 경로로 표현할 수 없으므로 null
+ */
+export function toFieldPath(path: string): string | null {
+  const segments = splitPath(path).map(unescapeKey);
+  const valid = segments.every(
+    (s) => s.length > 0 && s !== '[*]' && s !== MAP_WILDCARD && !s.includes('.') && !s.startsWith('$')
+  );
+  return valid ? segments.join('.') : null;
+}
+
+/**
+ * path별 $type 카운트 파이프라인 생성
+ * 문서마다 [{ p: path 번호, t: $type }] 배열을 만든 뒤 펼쳐서 (path, 타입)별로 집계
+ */
+export function buildExactStatsPipeline(fieldPaths: string[]): Document[] {
+  return [
+    { $project: { _id: 0, s: fieldPaths.map((fieldPath, p) => ({ p, t: { $type: `$${fieldPath}` } })) } },
+    { $unwind: '$s' },
+    { $group: { _id: { p: '$s.p', t: '$s.t' }, count: { $sum: 1 } } },
+  ];
+}
+
+/**
+ * $type 이름을 BsonType으로 변환 (MongoDB는 boolean을 'bool'로 표기)
+ */
+function fromServerType(name: string): BsonType | null {
+  if (name === 'bool') return BsonType.Boolean;
+  return BSON_TYPES.has(name) ? (name as BsonType) : null;
+}
+
+/**
+ * 집계 결과 행을 path별 통계로 변환
+ * 'missing'은 필드가 없는 문서이며, 각 path의 카운트 합계가 전체 문서 수
+ */
+export function collectExactStats(paths: string[], rows: ExactStatsRow[]): ExactStatsResult {
+  const stats = new Map<string, ExactPathStats>(paths.map((path) => [path, { presentCount: 0, typeCounts: {} }]));
+  const totals = new Array<number>(paths.length).fill(0);
+
+  for (const row of rows) {
+    const path = paths[row._id.p];
+    const entry = path !== undefined ? stats.get(path) : undefined;
+    if (!entry) continue;
+
+    totals[row._id.p] = (totals[row._id.p] ?? 0) + row.count;
+    const type = fromServerType(row._id.t);
+    if (!type) continue;
+
+    entry.presentCount += row.count;
+    entry.typeCounts[type] = (entry.typeCounts[type] ?? 0) + row.count;
+  }
+
+  return { totalDocs: totals[0] ?? 0, paths: stats };
+}
+
+/**
+ * 샘플에서 발견한 path의 존재 여부와 $type 분포를 컬렉션 전체에 대해 서버 측에서 계산
+ * 필드 경로로 표현할 수 없는 path는 제외되며, 집계 실패 시 null
+ */
+export async function computeExactStats(
+  collection: Collection<Document>,
+  paths: string[],
+  options: Partial<ExactStatsOptions> = {}
+): Promise<ExactStatsResult | null> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const targets = paths.flatMap((path) => {
+    const fieldPath = toFieldPath(path);
+    return fieldPath ? [{ path, fieldPath }] : [];
+  });
+  if (targets.length === 0) return collectExactStats([], []);
+
+  try {
+    const rows = await collection
+      .aggregate<ExactStatsRow>(buildExactStatsPipeline(targets.map((t) => t.fieldPath)), {
+        maxTimeMS: opts.maxTimeMS,
+        readPreference: opts.readPreference,
+        allowDiskUse: true,
+      })
+      .toArray();
+
+    return collectExactStats(targets.map((t) => t.path), rows);
+  } catch (error) {
+    logger.warn(`Exact statistics failed for ${collection.collectionName}: ${(error as Error).message}`);
+    return null;
+  }
+}
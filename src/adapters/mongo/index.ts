@@ -1,3 +1,6 @@
 export * from './client';
 export * from './scanner';
 export * from './sampler';
+export * from './validator';
+export * from './relations';
+export * from './exact';
@@ -0,0 +1,54 @@
+import type { Db, Document } from 'mongodb';
+import type { DuplicateLookup, IdLookup } from '../../types/relation';
+import { logger } from '../../cli/logger';
+
+// 참조 검증 쿼리 제한 시간
+const DEFAULT_MAX_TIME_MS = 30_000;
+
+export interface IdLookupOptions {
+  maxTimeMS: number;
+}
+
+/**
+ * _id $in 쿼리로 참조 값 일치 수를 조회하는 IdLookup 생성
+ * 쿼리 실패 시 0으로 처리하여 관계로 인정하지 않음
+ */
+export function createIdLookup(db: Db, options: Partial<IdLookupOptions> = {}): IdLookup {
+  const maxTimeMS = options.maxTimeMS ?? DEFAULT_MAX_TIME_MS;
+
+  return async (collectionName, ids) => {
+    const filter: Document = { _id: { $in: ids } };
+
+    try {
+      return await db.collection(collectionName).countDocuments(filter, { maxTimeMS });
+    } catch (error) {
+      logger.warn(`Relation lookup failed for ${collectionName}: ${(error as Error).message}`);
+      return 0;
+    }
+  };
+}
+
+/**
+ * 참조 값 중 두 문서 이상에 나타나는 값이 있는지 조회하는 DuplicateLookup 생성
+ * 샘플 값으로 범위를 제한한 $group 집계를 사용하며, 실패 시 중복으로 간주하여 1:1로 판정하지 않음
+ */
+export function createDuplicateLookup(db: Db, options: Partial<IdLookupOptions> = {}): DuplicateLookup {
+  const maxTimeMS = options.maxTimeMS ?? DEFAULT_MAX_TIME_MS;
+
+  return async (collectionName, path, values) => {
+    const pipeline: Document[] = [
+      { $match: { [path]: { $in: values } } },
+      { $group: { _id: `$${path}`, count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+      { $limit: 1 },
+    ];
+
+    try {
+      const rows = await db.collection(collectionName).aggregate(pipeline, { maxTimeMS }).toArray();
+      return rows.length > 0;
+    } catch (error) {
+      logger.warn(`Duplicate lookup failed for ${collectionName}.${path}: ${(error as Error).message}`);
+      return true;
+    }
+  };
+}
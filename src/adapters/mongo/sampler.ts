@@ -1,5 +1,5 @@
-import type { Collection, Document } from 'mongodb';
-import type { SampleResult } from '../../types/schema';
+import { ObjectId, type Collection, type Document } from 'mongodb';
+import type { SampleBucket, SampleResult } from '../../types/schema';
 import { logger } from '../../cli/logger';
 
 // 시간 계산 상수
@@ -11,13 +11,25 @@ export interface SampleOptions {
   timeWindowDays?: number;
   match?: Record<string, unknown>;
   strict?: boolean;
+  strategy: 'random' | 'stratified';
+  buckets: number; // stratified 전략 구간 수
 }
 
 const DEFAULT_OPTIONS: SampleOptions = {
   size: 100,
   strict: false,
+  strategy: 'random',
+  buckets: 5,
 };
 
+/**
+ * 시간 구간 범위
+ */
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
 /**
  * 시간 윈도우 매치 스테이지 생성
  */
@@ -30,6 +42,118 @@ function buildTimeWindowMatch(timeField: string, days: number): Record<string, u
   };
 }
 
+/**
+ * 샘플 크기를 구간에 균등 배분 (나머지는 앞 구간부터 1개씩)
+ */
+export function allocateBucketSizes(size: number, buckets: number): number[] {
+  const base = Math.floor(size / buckets);
+  return Array.from({ length: buckets }, (_, i) => base + (i < size % buckets ? 1 : 0));
+}
+
+/**
+ * 시간 범위를 같은 길이의 구간으로 분할
+ */
+export function splitTimeRange(min: Date, max: Date, buckets: number): TimeRange[] {
+  const span = max.getTime() - min.getTime();
+  const count = span > 0 ? buckets : 1;
+
+  return Array.from({ length: count }, (_, i) => ({
+    start: new Date(min.getTime() + Math.floor((span * i) / count)),
+    end: new Date(min.getTime() + Math.floor((span * (i + 1)) / count)),
+  }));
+}
+
+/**
+ * 구간 경계 조건 생성
+ * _id는 생성 시각으로 만든 ObjectId로 비교하며, 마지막 구간은 상한 없이 조회
+ */
+function buildRangeMatch(field: string, range: TimeRange, isLast: boolean): Record<string, unknown> {
+  const toBoundary = (date: Date) =>
+    field === '_id' ? ObjectId.createFromTime(Math.floor(date.getTime() / 1_000)) : date;
+
+  const condition: Record<string, unknown> = { $gte: toBoundary(range.start) };
+  if (!isLast) {
+    condition.$lt = toBoundary(range.end);
+  }
+  return { [field]: condition };
+}
+
+/**
+ * 구간 분할 기준 필드의 최소/최대 시각 조회
+ * _id는 ObjectId, timeField는 Date 값만 대상으로 함
+ */
+async function findTimeRange(
+  collection: Collection<Document>,
+  field: string,
+  match: Record<string, unknown>
+): Promise<{ min: Date; max: Date } | null> {
+  const filter = { $and: [match, { [field]: { $type: field === '_id' ? 'objectId' : 'date' } }] };
+  const toDate = (doc: Document | undefined): Date | null => {
+    const value = field.split('.').reduce<unknown>((v, key) => (v as Document | undefined)?.[key], doc);
+    if (value instanceof Date) return value;
+    return value instanceof ObjectId ? value.getTimestamp() : null;
+  };
+
+  const [first] = await collection.find(filter).project({ [field]: 1 }).sort({ [field]: 1 }).limit(1).toArray();
+  const [last] = await collection.find(filter).project({ [field]: 1 }).sort({ [field]: -1 }).limit(1).toArray();
+
+  const min = toDate(first);
+  const max = toDate(last);
+  return min && max ? { min, max } : null;
+}
+
+/**
+ * _id(또는 timeField) 범위를 구간으로 나누어 구간별로 균등 샘플링
+ * 기준 필드 값이 없으면 null
+ */
+async function sampleStratified(
+  collection: Collection<Document>,
+  matchConditions: Record<string, unknown>[],
+  opts: SampleOptions
+): Promise<SampleResult | null> {
+  const field = opts.timeField ?? '_id';
+  const baseMatch = matchConditions.length > 0 ? { $and: matchConditions } : {};
+
+  const range = await findTimeRange(collection, field, baseMatch);
+  if (!range) {
+    return null;
+  }
+
+  const ranges = splitTimeRange(range.min, range.max, opts.buckets);
+  const sizes = allocateBucketSizes(opts.size, ranges.length);
+  const documents: Record<string, unknown>[] = [];
+  const buckets: SampleBucket[] = [];
+
+  for (const [i, bucketRange] of ranges.entries()) {
+    const size = sizes[i] ?? 0;
+    let docs: Document[] = [];
+
+    if (size > 0) {
+      const pipeline: Document[] = [
+        { $match: { $and: [...matchConditions, buildRangeMatch(field, bucketRange, i === ranges.length - 1)] } },
+        { $sample: { size } },
+      ];
+      logger.debug(`Sampling bucket ${i + 1}/${ranges.length} with pipeline: ${JSON.stringify(pipeline)}`);
+      docs = await collection.aggregate(pipeline).toArray();
+    }
+
+    documents.push(...(docs as Record<string, unknown>[]));
+    buckets.push({
+      start: bucketRange.start.toISOString(),
+      end: bucketRange.end.toISOString(),
+      count: docs.length,
+    });
+  }
+
+  return {
+    documents,
+    actualSize: documents.length,
+    strategy: 'stratified',
+    fallback: false,
+    buckets,
+  };
+}
+
 /**
  * 컬렉션에서 문서 샘플링
  */
@@ -63,6 +187,20 @@ export async function sample(
   logger.debug(`Sampling with pipeline: ${JSON.stringify(pipeline)}`);
 
   try {
+    if (opts.strategy === 'stratified') {
+      const stratified = await sampleStratified(collection, matchConditions, opts);
+      if (stratified) {
+        return stratified;
+      }
+
+      const message = `No ${opts.timeField ?? '_id'} range found for stratified sampling`;
+      if (opts.strict) {
+        throw new Error(message);
+      }
+      logger.warn(`${message}, falling back to ${strategy}`);
+      fallback = true;
+    }
+
     const documents = await collection.aggregate(pipeline).toArray();
 
     if (documents.length === 0 && matchConditions.length > 0 && !opts.strict) {
@@ -7,13 +7,14 @@ import { logger } from '../../cli/logger';
 export interface ScanOptions {
   include?: string;
   exclude?: string;
+  dataFingerprint?: boolean; // false면 max _id/collStats 조회 생략 (기본 true)
 }
 
 /**
  * 컬렉션명이 필터 패턴과 일치하는지 확인
  * minimatch로 glob 패턴 지원: *, ?, {a,b,c}, [abc] 등
  */
-function matchesFilter(name: string, options: ScanOptions): boolean {
+export function matchesFilter(name: string, options: ScanOptions): boolean {
   if (name.startsWith('system.')) {
     return false;
   }
@@ -50,6 +51,33 @@ async function getIndexes(db: Db, collectionName: string): Promise<IndexInfo[]>
   }
 }
 
+/**
+ * 데이터 변경 감지용 fingerprint 계산
+ * estimatedCount, 최대 _id, collStats 저장 크기를 조합 (조회 실패한 항목은 null)
+ */
+async function getDataFingerprint(db: Db, collectionName: string, estimatedCount: number): Promise<string> {
+  const collection = db.collection(collectionName);
+
+  let maxId: string | null = null;
+  try {
+    const latest = await collection.find({}, { projection: { _id: 1 } }).sort({ _id: -1 }).limit(1).next();
+    maxId = latest ? JSON.stringify(latest._id) : null;
+  } catch (error) {
+    logger.debug(`Failed to get max _id for ${collectionName}: ${(error as Error).message}`);
+  }
+
+  let size: number | null = null;
+  try {
+    const stats = await collection.aggregate([{ $collStats: { storageStats: {} } }]).toArray();
+    // 샤딩된 컬렉션은 샤드별 결과를 합산
+    size = stats.reduce((sum, s) => sum + Number(s.storageStats?.size ?? 0), 0);
+  } catch (error) {
+    logger.debug(`Failed to get collStats for ${collectionName}: ${(error as Error).message}`);
+  }
+
+  return hashObject({ estimatedCount, maxId, size });
+}
+
 /**
  * 데이터베이스 스캔하여 컬렉션 및 메타데이터 수집
  */
@@ -80,11 +108,17 @@ export async function scan(db: Db, options: ScanOptions = {}): Promise<ScanResul
 
       const fingerprint = hashObject(indexes);
 
+      const dataFingerprint =
+        options.dataFingerprint === false
+          ? hashObject({ estimatedCount, maxId: null, size: null })
+          : await getDataFingerprint(db, name, estimatedCount);
+
       result.push({
         name,
         estimatedCount,
         indexes,
         fingerprint,
+        dataFingerprint,
       });
     } catch (error) {
       logger.warn(`Failed to scan collection ${name}: ${(error as Error).message}`);
@@ -0,0 +1,56 @@
+import type { Collection, Document } from 'mongodb';
+import { logger } from '../../cli/logger';
+
+// dry-run 쿼리 제한 시간
+const DEFAULT_MAX_TIME_MS = 60_000;
+
+export interface ValidatorDryRunOptions {
+  maxTimeMS: number;
+}
+
+/**
+ * validator dry-run 결과
+ */
+export interface ValidatorDryRunResult {
+  collection: string;
+  estimatedCount: number;
+  failing: number | null; // 쿼리 실패 시 null
+  failingRatio: number | null;
+  error?: string;
+}
+
+/**
+ * validator를 통과하지 못하는 기존 문서 수 계산
+ * { $nor: [validator] } 쿼리로 위반 문서만 카운트
+ */
+export async function dryRunValidator(
+  collection: Collection<Document>,
+  validator: Document,
+  options: Partial<ValidatorDryRunOptions> = {}
+): Promise<ValidatorDryRunResult> {
+  const maxTimeMS = options.maxTimeMS ?? DEFAULT_MAX_TIME_MS;
+  let estimatedCount = 0; // 문서 수 조회도 실패하면 0
+
+  try {
+    estimatedCount = await collection.estimatedDocumentCount();
+    const failing = await collection.countDocuments({ $nor: [validator] }, { maxTimeMS });
+    const total = Math.max(estimatedCount, failing);
+
+    return {
+      collection: collection.collectionName,
+      estimatedCount,
+      failing,
+      failingRatio: total > 0 ? failing / total : 0,
+    };
+  } catch (error) {
+    logger.warn(`Validator dry-run failed for ${collection.collectionName}: ${(error as Error).message}`);
+
+    return {
+      collection: collection.collectionName,
+      estimatedCount,
+      failing: null,
+      failingRatio: null,
+      error: (error as Error).message,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { ContractConfigSchema, type ContractConfig, type ResolvedCheckConfig } from '../../types/config';
+import type { ContractViolation } from '../../types/contract';
+import type { CollectionSchema } from '../../types/schema';
+import { connect, disconnect } from '../../adapters/mongo/client';
+import { scan, matchesFilter } from '../../adapters/mongo/scanner';
+import { loadSchemaJson } from '../../render/json/schema';
+import { checkContract, hasContractErrors } from '../../core/contract/checker';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { logger } from '../logger';
+import { EXIT_CODES, processCollection } from './run';
+
+/**
+ * 계약 규칙 파일 로드
+ * 파일 미지정 시 기본 규칙 사용
+ */
+async function loadContractConfig(filePath?: string): Promise<ContractConfig> {
+  if (!filePath) {
+    return ContractConfigSchema.parse({});
+  }
+
+  const content = await readFile(filePath, 'utf-8');
+  return ContractConfigSchema.parse(JSON.parse(content));
+}
+
+/**
+ * 위반 항목 로그 출력
+ */
+function reportViolation(violation: ContractViolation): void {
+  const target = violation.path ? `${violation.collection}.${violation.path}` : violation.collection;
+  const message = `[${violation.rule}] ${target}: ${violation.message}`;
+
+  if (violation.severity === 'error') {
+    logger.error(message);
+  } else {
+    logger.warn(message);
+  }
+}
+
+/**
+ * 라이브 DB를 샘플링하여 기준 schema.json 계약 검사
+ */
+export async function check(config: ResolvedCheckConfig): Promise<number> {
+  logger.configure({ verbose: config.verbose, redact: config.redact !== 'off' });
+  logger.resetTimer();
+
+  logger.info(`ExplainDB - Schema Contract Check`);
+  logger.info(`Database: ${config.db}`);
+
+  const baselinePath = config.baseline ?? join(config.out, config.db, 'artifacts', 'schema.json');
+  const baseline = await loadSchemaJson(baselinePath);
+  if (!baseline) {
+    logger.error(`Failed to load baseline schema: ${baselinePath}`);
+    return EXIT_CODES.INVALID_ARGS;
+  }
+
+  let contract: ContractConfig;
+  try {
+    contract = await loadContractConfig(config.rules);
+  } catch (error) {
+    logger.error(`Invalid contract rules file: ${(error as Error).message}`);
+    return EXIT_CODES.INVALID_ARGS;
+  }
+
+  try {
+    logger.info('Connecting to MongoDB...');
+    const { db } = await connect(config.uri, config.db);
+
+    // 계약 검사는 fingerprint를 쓰지 않으므로 데이터 fingerprint 조회 생략
+    const scanResult = await scan(db, {
+      include: config.include,
+      exclude: config.exclude,
+      dataFingerprint: false,
+    });
+
+    logger.info(`Checking ${scanResult.collections.length} collections against ${baselinePath}`);
+
+    let failedCount = 0;
+    const results = await runWithConcurrency(
+      scanResult.collections,
+      async (col) => {
+        try {
+          const result = await processCollection(db, col, config);
+          return result.schema;
+        } catch (error) {
+          failedCount++;
+          logger.error(`Failed to process ${col.name}: ${(error as Error).message}`);
+          return null;
+        }
+      },
+      config.concurrency
+    );
+
+    await disconnect();
+
+    // 샘플링 실패 컬렉션을 "사라진 컬렉션"으로 오판하지 않도록 검사 중단
+    if (failedCount > 0) {
+      return EXIT_CODES.SAMPLING_FAILURE;
+    }
+
+    const observed = results.filter((s): s is CollectionSchema => s !== null);
+    const violations = checkContract(baseline, observed, {
+      rules: contract.rules,
+      isInScope: (name) => matchesFilter(name, { include: config.include, exclude: config.exclude }),
+    });
+
+    for (const violation of violations) {
+      reportViolation(violation);
+    }
+
+    const errorCount = violations.filter((v) => v.severity === 'error').length;
+    const warnCount = violations.length - errorCount;
+
+    if (hasContractErrors(violations)) {
+      logger.error(`Contract check failed: ${errorCount} errors, ${warnCount} warnings`);
+      return EXIT_CODES.CONTRACT_VIOLATION;
+    }
+
+    logger.success(`Contract check passed (${warnCount} warnings)`);
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    const err = error as Error;
+    await disconnect();
+
+    if (err.message.includes('인증 실패')) {
+      logger.error(err.message);
+      return EXIT_CODES.AUTH_FAILURE;
+    }
+
+    if (err.message.includes('연결 실패')) {
+      logger.error(err.message);
+      return EXIT_CODES.CONNECTION_FAILURE;
+    }
+
+    logger.error(`Unexpected error: ${err.message}`);
+    return EXIT_CODES.SAMPLING_FAILURE;
+  }
+}
@@ -0,0 +1,63 @@
+import { writeFile } from 'fs/promises';
+import type { DiffOptions } from '../../types/config';
+import type { SchemaDiff } from '../../types/diff';
+import { loadSchemaJson } from '../../render/json/schema';
+import { stringifySchemaDiff } from '../../render/json/diff';
+import { renderSchemaDiffMarkdown } from '../../render/markdown/diff';
+import { renderSchemaDiffTable } from '../../render/text/diff';
+import { diffSchemas } from '../../core/diff/differ';
+import { logger } from '../logger';
+import { EXIT_CODES } from './run';
+
+/**
+ * 지정한 포맷으로 diff 렌더링
+ */
+function renderDiff(diff: SchemaDiff, format: DiffOptions['format']): string {
+  switch (format) {
+    case 'markdown':
+      return renderSchemaDiffMarkdown(diff);
+    case 'json':
+      return stringifySchemaDiff(diff) + '\n';
+    case 'table':
+      return renderSchemaDiffTable(diff);
+  }
+}
+
+/**
+ * 두 schema.json 비교 실행
+ * 결과는 stdout 또는 --out 파일로 출력 (로그와 섞이지 않도록 info 로그 생략)
+ */
+export async function diff(options: DiffOptions): Promise<number> {
+  logger.configure({ verbose: options.verbose });
+
+  const base = await loadSchemaJson(options.base);
+  if (!base) {
+    logger.error(`Failed to load schema: ${options.base}`);
+    return EXIT_CODES.INVALID_ARGS;
+  }
+
+  const head = await loadSchemaJson(options.head);
+  if (!head) {
+    logger.error(`Failed to load schema: ${options.head}`);
+    return EXIT_CODES.INVALID_ARGS;
+  }
+
+  logger.debug(`Comparing ${options.base} -> ${options.head}`);
+
+  const result = diffSchemas(base, head, { ratioThreshold: options.ratioThreshold });
+  const content = renderDiff(result, options.format);
+
+  try {
+    if (options.out) {
+      await writeFile(options.out, content, 'utf-8');
+      logger.debug(`Wrote diff to ${options.out}`);
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    logger.error(`Failed to write diff: ${(error as Error).message}`);
+    return EXIT_CODES.RENDER_FAILURE;
+  }
+
+  return EXIT_CODES.SUCCESS;
+}
@@ -1 +1,3 @@
 export * from './run';
+export * from './diff';
+export * from './check';
@@ -1,24 +1,59 @@
-import { mkdir, writeFile } from 'fs/promises';
+import { copyFile, mkdir, readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
-import type { Db } from 'mongodb';
+import type { Collection, Db, Document } from 'mongodb';
 import type { ResolvedConfig } from '../../types/config';
-import type { CollectionSchema, RunMeta, TruncationCounters } from '../../types/schema';
+import type {
+  CollectionFingerprint,
+  CollectionMeta,
+  CollectionSchema,
+  RunMeta,
+  SampleBucket,
+  SampleResult,
+  SamplingConvergence,
+  SchemaOutput,
+  TruncationCounters,
+} from '../../types/schema';
+import type { ReferenceSample, Relation, VerifiedRelation } from '../../types/relation';
 import { connect, disconnect } from '../../adapters/mongo/client';
-import { scan } from '../../adapters/mongo/scanner';
-import { sample } from '../../adapters/mongo/sampler';
+import { scan, matchesFilter } from '../../adapters/mongo/scanner';
+import { sample, type SampleOptions } from '../../adapters/mongo/sampler';
+import { computeExactStats } from '../../adapters/mongo/exact';
 import { flatten, mergeFlattenResults } from '../../core/flatten/flattener';
-import { aggregateAll } from '../../core/infer/aggregator';
+import { aggregateAll, applyExactStats } from '../../core/infer/aggregator';
+import { markKeyCandidates } from '../../core/infer/cardinality';
+import { formatEnumValues } from '../../core/infer/enums';
+import { assessConvergence, measurePresence, type ConvergenceCheck } from '../../core/infer/convergence';
 import { analyzeVariants } from '../../core/variants/signature';
+import { detectDiscriminator } from '../../core/variants/discriminator';
+import { analyzeTimeline } from '../../core/timeline/evolution';
+import { collectForeignKeyFields, inferForeignKeyContext, inferRelations } from '../../core/relations/foreignKeys';
+import { collectReferenceSamples, verifyRelations } from '../../core/relations/verifier';
+import { createDuplicateLookup, createIdLookup } from '../../adapters/mongo/relations';
+import { diffSchemas, hasSchemaChanges } from '../../core/diff/differ';
 import { renderReadme } from '../../render/markdown/readme';
+import { renderErDiagram } from '../../render/mermaid/erd';
 import { renderCollection } from '../../render/markdown/collection';
+import { mergeChangelog, renderChangelogEntry } from '../../render/markdown/changelog';
 import { renderSchemaJson, stringifySchemaJson, loadSchemaJson } from '../../render/json/schema';
+import { renderJsonSchema, stringifyJsonSchema } from '../../render/jsonschema/schema';
+import { renderCollMod, VALIDATOR_PRESETS } from '../../render/validator/validator';
+import { renderTypeScript, renderTypeScriptIndex } from '../../render/typescript/interface';
+import { renderZodSchema, renderZodIndex } from '../../render/zod/schema';
+import { renderMongooseSchema, renderMongooseIndex } from '../../render/mongoose/schema';
+import { dryRunValidator, type ValidatorDryRunResult } from '../../adapters/mongo/validator';
 import { logger } from '../logger';
 import { createBedrockProvider } from '../../adapters/llm/bedrock';
 import { generateSummary, generateDescriptions, type ExplainOptions } from '../../core/explain/runner';
 import type { LLMProvider } from '../../adapters/llm/provider';
 import type { FieldDescriptionInput } from '../../adapters/llm/provider';
 import { runWithConcurrency } from '../../utils/concurrency';
-import { extractDescriptions, type ExistingDescriptions } from '../../core/explain/incremental';
+import {
+  extractDescriptions,
+  findUnchangedSchema,
+  preserveRemovedCollection,
+  type ExistingDescriptions,
+} from '../../core/explain/incremental';
+import { hashObject } from '../../utils/hash';
 
 // 종료 코드
 export const EXIT_CODES = {
@@ -27,6 +62,7 @@ export const EXIT_CODES = {
   AUTH_FAILURE: 2,
   SAMPLING_FAILURE: 3,
   RENDER_FAILURE: 4,
+  CONTRACT_VIOLATION: 5,
   INVALID_ARGS: 10,
 };
 
@@ -66,84 +102,282 @@ async function ensureOutputDirs(outDir: string, dbName: string): Promise<string>
 }
 
 /**
- * 외래키 패턴 필드 수집
- * *Id, *_id, *Uuid 패턴 필드를 외래키로 인식
+ * 이전 schema.json을 artifacts/history/에 보관하고 CHANGELOG.md에 변경 항목 추가
+ * 변경 사항이 없으면 기록하지 않음
+ * 반환값: 생성된 산출물 경로 목록 (dbOutDir 기준 상대 경로)
  */
-function collectForeignKeyFields(schemas: CollectionSchema[]): Map<string, string[]> {
-  const foreignKeyMap = new Map<string, string[]>();
-
-  for (const schema of schemas) {
-    for (const field of schema.fields) {
-      const fieldName = field.path.split('.').pop() || field.path;
-      // *Id, *_id, *Uuid 패턴 체크
-      if (/(?:Id|_id|Uuid)$/i.test(fieldName)) {
-        const key = `${schema.name}.${field.path}`;
-        foreignKeyMap.set(key, []);
-      }
+async function writeHistory(dbOutDir: string, previous: SchemaOutput, current: SchemaOutput): Promise<string[]> {
+  const diff = diffSchemas(previous, current);
+  if (!hasSchemaChanges(diff)) {
+    logger.debug('No schema changes since previous run');
+    return [];
+  }
+
+  // 파일명에 사용할 수 없는 ':' 치환
+  const snapshot = `artifacts/history/${previous.meta.generatedAt.replace(/:/g, '-')}.json`;
+  await mkdir(join(dbOutDir, 'artifacts', 'history'), { recursive: true });
+  await copyFile(join(dbOutDir, 'artifacts', 'schema.json'), join(dbOutDir, snapshot));
+
+  const changelogPath = join(dbOutDir, 'CHANGELOG.md');
+  const existing = await readFile(changelogPath, 'utf-8').catch(() => null);
+  await writeFile(changelogPath, mergeChangelog(existing, renderChangelogEntry(diff, `./${snapshot}`)), 'utf-8');
+
+  return [snapshot, 'CHANGELOG.md'];
+}
+
+/**
+ * --emit으로 요청된 추가 산출물 작성
+ * 반환값: 생성된 산출물 경로 목록 (dbOutDir 기준 상대 경로)
+ */
+async function writeEmitArtifacts(
+  dbOutDir: string,
+  schemas: CollectionSchema[],
+  config: ResolvedConfig,
+  validatorDryRun: ValidatorDryRunResult[],
+  relations: Relation[]
+): Promise<string[]> {
+  const written: string[] = [];
+
+  if (config.emit.includes('jsonschema')) {
+    const dir = join(dbOutDir, 'artifacts', 'jsonschema');
+    await mkdir(dir, { recursive: true });
+    for (const schema of schemas) {
+      await writeFile(
+        join(dir, `${schema.name}.schema.json`),
+        stringifyJsonSchema(renderJsonSchema(schema)),
+        'utf-8'
+      );
+    }
+    written.push(`artifacts/jsonschema/*.schema.json (${schemas.length} files)`);
+  }
+
+  if (config.emit.includes('validator') || config.validatorDryRun) {
+    const dir = join(dbOutDir, 'artifacts', 'validators');
+    await mkdir(dir, { recursive: true });
+    const options = VALIDATOR_PRESETS[config.validatorStrictness];
+    for (const schema of schemas) {
+      await writeFile(
+        join(dir, `${schema.name}.json`),
+        JSON.stringify(renderCollMod(schema, options), null, 2),
+        'utf-8'
+      );
+    }
+    written.push(`artifacts/validators/*.json (${schemas.length} files)`);
+
+    if (validatorDryRun.length > 0) {
+      await writeFile(join(dir, 'dry-run.json'), JSON.stringify(validatorDryRun, null, 2), 'utf-8');
+      written.push('artifacts/validators/dry-run.json');
+    }
+  }
+
+  if (config.emit.includes('typescript')) {
+    const dir = join(dbOutDir, 'artifacts', 'types');
+    await mkdir(dir, { recursive: true });
+    for (const schema of schemas) {
+      await writeFile(join(dir, `${schema.name}.ts`), renderTypeScript(schema), 'utf-8');
+    }
+    await writeFile(join(dir, 'index.ts'), renderTypeScriptIndex(schemas), 'utf-8');
+    written.push(`artifacts/types/*.ts (${schemas.length} files)`);
+  }
+
+  if (config.emit.includes('zod')) {
+    const dir = join(dbOutDir, 'artifacts', 'zod');
+    await mkdir(dir, { recursive: true });
+    for (const schema of schemas) {
+      await writeFile(join(dir, `${schema.name}.ts`), renderZodSchema(schema), 'utf-8');
+    }
+    await writeFile(join(dir, 'index.ts'), renderZodIndex(schemas), 'utf-8');
+    written.push(`artifacts/zod/*.ts (${schemas.length} files)`);
+  }
+
+  if (config.emit.includes('mongoose')) {
+    const dir = join(dbOutDir, 'artifacts', 'mongoose');
+    await mkdir(dir, { recursive: true });
+    for (const schema of schemas) {
+      await writeFile(join(dir, `${schema.name}.ts`), renderMongooseSchema(schema, relations), 'utf-8');
     }
+    await writeFile(join(dir, 'index.ts'), renderMongooseIndex(schemas), 'utf-8');
+    written.push(`artifacts/mongoose/*.ts (${schemas.length} files)`);
   }
 
-  return foreignKeyMap;
+  return written;
 }
 
 /**
- * 필드의 외래키 컨텍스트 추론
- * 필드명이 다른 컬렉션의 외래키 필드와 매칭되는지 확인
+ * 스키마 결과에 영향을 주는 샘플링/추론 옵션 해시
  */
-function inferForeignKeyContext(fieldPath: string, allForeignKeys: Map<string, string[]>): string[] {
-  const context: string[] = [];
-  const fieldName = fieldPath.split('.').pop() || fieldPath;
-
-  // 필드명과 매칭되는 외래키 필드 찾기
-  for (const [foreignKey] of allForeignKeys) {
-    const parts = foreignKey.split('.');
-    const fkPath = parts.slice(1).join('.');
-
-    if (!fkPath) continue;
-
-    const fkFieldName = fkPath.split('.').pop();
-    if (!fkFieldName) continue;
-
-    // 필드명이 유사한 경우 (예: userId와 users._id)
-    if (
-      fieldName.toLowerCase().includes(fkFieldName.toLowerCase()) ||
-      fkFieldName.toLowerCase().includes(fieldName.toLowerCase())
-    ) {
-      context.push(foreignKey);
+function hashSamplingOptions(config: ResolvedConfig): string {
+  return hashObject({
+    sampleSize: config.sampleSize,
+    timeField: config.timeField ?? null,
+    timeWindowDays: config.timeWindowDays ?? null,
+    match: config.match ?? null,
+    samplingStrategy: config.samplingStrategy,
+    samplingBuckets: config.samplingStrategy === 'stratified' ? config.samplingBuckets : null,
+    maxSampleSize: config.adaptiveSampling ? config.maxSampleSize : null,
+    convergenceTolerance: config.adaptiveSampling ? config.convergenceTolerance : null,
+    exact: config.exact,
+    maxDepth: config.maxDepth,
+    maxKeysPerDoc: config.maxKeysPerDoc,
+    maxArraySample: config.maxArraySample,
+    optionalThreshold: config.optionalThreshold,
+    examplesPerType: config.examplesPerType,
+    variantTop: config.variantTop,
+    redact: config.redact,
+    redactMode: config.redactMode,
+    piiPatterns: config.piiPatterns ?? null,
+  });
+}
+
+/**
+ * 메타데이터에 기록할 샘플링 전략 이름
+ */
+function describeSamplingStrategy(config: ResolvedConfig): string {
+  if (config.samplingStrategy === 'stratified') return 'stratified';
+  if (config.timeField) return 'time-window';
+  return config.match ? 'filtered' : 'random';
+}
+
+/**
+ * 스캐너 메타데이터로부터 컬렉션 fingerprint 생성
+ */
+function createFingerprint(meta: CollectionMeta, config: ResolvedConfig): CollectionFingerprint {
+  return {
+    indexes: meta.fingerprint,
+    data: meta.dataFingerprint,
+    options: hashSamplingOptions(config),
+  };
+}
+
+/**
+ * 샘플 문서의 경로별 presentRatio 측정
+ */
+function measureSamplePresence(documents: Record<string, unknown>[], config: ResolvedConfig): Map<string, number> {
+  const merged = mergeFlattenResults(
+    documents.map((doc, idx) =>
+      flatten(doc, idx, {
+        maxDepth: config.maxDepth,
+        maxKeysPerDoc: config.maxKeysPerDoc,
+        maxArraySample: config.maxArraySample,
+      })
+    )
+  );
+  return measurePresence(merged.paths, documents.length);
+}
+
+/**
+ * 적응형 샘플링
+ * sampleSize 단위 배치로 샘플링하며, 새 경로가 없고 presentRatio 변화가 허용치 이내가 되거나
+ * maxSampleSize에 도달하거나 더 가져올 문서가 없으면 중단
+ */
+async function sampleUntilConverged(
+  collection: Collection<Document>,
+  options: Partial<SampleOptions>,
+  config: ResolvedConfig
+): Promise<{ result: SampleResult; convergence: SamplingConvergence }> {
+  const documents: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  const buckets: SampleBucket[] = [];
+  let previous: Map<string, number> | null = null;
+  let check: ConvergenceCheck | null = null;
+  let last: SampleResult | null = null;
+  let fallback = false;
+  let exhausted = false;
+  let batches = 0;
+
+  while (documents.length < config.maxSampleSize) {
+    const size = Math.min(config.sampleSize, config.maxSampleSize - documents.length);
+    const batch = await sample(collection, { ...options, size });
+    batches++;
+    last = batch;
+    fallback ||= batch.fallback;
+
+    // $sample은 배치 간 중복될 수 있으므로 _id 기준으로 제거
+    const fresh = batch.documents.filter((doc) => {
+      const key = JSON.stringify(doc._id ?? doc);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    documents.push(...fresh);
+    batch.buckets?.forEach((bucket, i) => {
+      const existing = buckets[i];
+      buckets[i] = existing ? { ...existing, count: existing.count + bucket.count } : { ...bucket };
+    });
+
+    // 컬렉션 전체를 이미 읽었거나 새 문서가 없으면 더 샘플링해도 변화 없음
+    // (stratified는 일부 구간만 부족할 수 있으므로 새 문서 유무로만 판단)
+    const underfilled = batch.strategy !== 'stratified' && batch.actualSize < size;
+    if (underfilled || fresh.length === 0) {
+      exhausted = true;
+      break;
     }
+
+    const current = measureSamplePresence(documents, config);
+    if (previous) {
+      check = assessConvergence(previous, current, { tolerance: config.convergenceTolerance });
+      if (check.converged) break;
+    }
+    previous = current;
   }
 
-  return context;
+  const convergence: SamplingConvergence = {
+    batches,
+    score: exhausted ? 1 : (check?.score ?? 0),
+    converged: exhausted || (check?.converged ?? false),
+  };
+  logger.debug(
+    `Adaptive sampling stopped after ${batches} batches (${documents.length} documents, score ${convergence.score})`
+  );
+
+  return {
+    result: {
+      documents,
+      actualSize: documents.length,
+      strategy: last?.strategy ?? 'random',
+      fallback,
+      buckets: buckets.length > 0 ? buckets : undefined,
+    },
+    convergence,
+  };
 }
 
 /**
  * 단일 컬렉션 처리
+ * 컬렉션 메타데이터는 전체 스캔 결과를 그대로 사용 (컬렉션별 재스캔 없음)
  */
-async function processCollection(
+export async function processCollection(
   db: Db,
-  collectionName: string,
+  collectionMeta: CollectionMeta,
   config: ResolvedConfig,
   llmProvider?: LLMProvider,
   existingDescriptions?: ExistingDescriptions | null,
   explainOptions?: Partial<ExplainOptions>
-): Promise<{ schema: CollectionSchema; truncation: TruncationCounters }> {
+): Promise<{
+  schema: CollectionSchema;
+  truncation: TruncationCounters;
+  references: ReferenceSample[];
+  buckets?: SampleBucket[];
+}> {
+  const collectionName = collectionMeta.name;
   const collection = db.collection(collectionName);
 
   // 문서 샘플링
-  const sampleResult = await sample(collection, {
+  const sampleOptions: Partial<SampleOptions> = {
     size: config.sampleSize,
     timeField: config.timeField,
     timeWindowDays: config.timeWindowDays,
     match: config.match ? JSON.parse(config.match) : undefined,
     strict: config.samplingStrict,
-  });
+    strategy: config.samplingStrategy,
+    buckets: config.samplingBuckets,
+  };
+  const { result: sampleResult, convergence } = config.adaptiveSampling
+    ? await sampleUntilConverged(collection, sampleOptions, config)
+    : { result: await sample(collection, sampleOptions), convergence: undefined };
 
   logger.debug(`Sampled ${sampleResult.actualSize} documents (strategy: ${sampleResult.strategy})`);
 
-  // 스캐너에서 컬렉션 정보 가져오기
-  const scanResult = await scan(db, { include: collectionName, exclude: undefined });
-  const collectionMeta = scanResult.collections.find((c) => c.name === collectionName);
-
   // 모든 문서 평탄화
   const flattenResults = sampleResult.documents.map((doc, idx) =>
     flatten(doc, idx, {
@@ -156,7 +390,7 @@ async function processCollection(
   const merged = mergeFlattenResults(flattenResults);
 
   // 필드 스키마로 집계
-  const fields = aggregateAll(merged.paths, {
+  let fields = aggregateAll(merged.paths, {
     totalDocs: sampleResult.actualSize,
     optionalThreshold: config.optionalThreshold,
     examplesPerType: config.examplesPerType,
@@ -165,6 +399,14 @@ async function processCollection(
     piiPatterns: config.piiPatterns,
   });
 
+  // 동적 키 맵의 키 패턴 기록
+  for (const field of fields) {
+    const pattern = merged.mapKeys?.get(field.path);
+    if (pattern) {
+      field.mapKeys = pattern;
+    }
+  }
+
   // 경고 메시지 생성
   const warnings: string[] = [];
   if (sampleResult.fallback) {
@@ -178,19 +420,66 @@ async function processCollection(
     warnings.push('PII detected');
   }
 
+  // 전체 컬렉션 집계로 존재 여부/타입 분포 계산 (--exact)
+  if (config.exact && fields.length > 0) {
+    const exact = await computeExactStats(collection, fields.map((f) => f.path));
+    if (exact) {
+      fields = fields.map((field) => {
+        const stats = exact.paths.get(field.path);
+        return stats
+          ? applyExactStats(field, stats, exact.totalDocs, config.optionalThreshold)
+          : { ...field, exact: false };
+      });
+      logger.debug(`Computed exact statistics for ${exact.paths.size}/${fields.length} fields`);
+    } else {
+      warnings.push('Exact statistics unavailable');
+    }
+  }
+
+  // 계속 커지는 배열 (16MB 문서 제한 위험)
+  if (fields.some((f) => f.arrayProfile?.unbounded)) {
+    warnings.push('Unbounded array growth');
+  }
+
+  // 항상 존재하고 고유하지만 unique 인덱스가 없는 자연 키 후보
+  const keyCandidates = markKeyCandidates(fields, collectionMeta.indexes);
+  if (keyCandidates.length > 0) {
+    warnings.push('Key candidates without unique index');
+  }
+
+  // 문서 생성 시각 구간별 필드 추이 분석
+  const timeline = analyzeTimeline(sampleResult.documents, merged.paths, fields, { timeField: config.timeField });
+  if (timeline) {
+    for (const field of fields) {
+      field.timeline = timeline.fields.get(field.path);
+    }
+  }
+
   // 변종 분석
   const variants = analyzeVariants(sampleResult.documents, { topN: config.variantTop });
+  const discriminator = detectDiscriminator(sampleResult.documents, variants);
 
   const schema: CollectionSchema = {
     name: collectionName,
-    estimatedCount: collectionMeta?.estimatedCount || 0,
+    estimatedCount: collectionMeta.estimatedCount,
     sampledCount: sampleResult.actualSize,
-    indexes: collectionMeta?.indexes || [],
+    indexes: collectionMeta.indexes,
     fields,
-    variants,
+    variants: discriminator?.variants ?? variants,
     warnings,
   };
 
+  if (discriminator) {
+    schema.discriminator = discriminator.field;
+  }
+  if (timeline) {
+    schema.timeline = timeline.timeline;
+  }
+  if (convergence) {
+    schema.convergence = convergence;
+  }
+  schema.fingerprint = createFingerprint(collectionMeta, config);
+
   // LLM을 통한 요약 생성 (config.llm === 'on'일 때)
   if (llmProvider) {
     const existingCollection = existingDescriptions?.collections.get(collectionName);
@@ -238,6 +527,9 @@ async function processCollection(
   return {
     schema,
     truncation: merged.truncationCounters,
+    // 참조 검증용 샘플 값 (DB 조회는 모든 컬렉션 처리 후 수행)
+    references: config.relations === 'verify' ? collectReferenceSamples(sampleResult.documents) : [],
+    buckets: sampleResult.buckets,
   };
 }
 
@@ -272,12 +564,16 @@ export async function run(config: ResolvedConfig): Promise<number> {
       }
     }
 
-    // 기존 스키마 로드 (incremental 모드)
+    // 기존 스키마 로드 (incremental 모드, 삭제된 컬렉션 보존, 스키마 이력)
+    const useIncremental = config.incremental === 'on' && !config.force;
     let existingDescriptions: ExistingDescriptions | null = null;
-    if (config.incremental === 'on' && !config.force) {
+    let existingSchema: SchemaOutput | null = null;
+    let previousSchema: SchemaOutput | null = null;
+    if (useIncremental || config.pruneRemovedCollections === 'off' || config.history === 'on') {
       const schemaPath = join(config.out, config.db, 'artifacts', 'schema.json');
-      const existingSchema = await loadSchemaJson(schemaPath);
-      if (existingSchema) {
+      previousSchema = await loadSchemaJson(schemaPath);
+      if (previousSchema && useIncremental) {
+        existingSchema = previousSchema;
         existingDescriptions = extractDescriptions(existingSchema);
         logger.info(`Loaded existing schema with ${existingDescriptions.collections.size} collections`);
       }
@@ -310,16 +606,33 @@ export async function run(config: ResolvedConfig): Promise<number> {
       arraysTruncated: 0,
     };
 
+    // fingerprint가 변경되지 않은 컬렉션은 기존 스키마 재사용 (incremental 모드)
+    const reusedSchemas: CollectionSchema[] = [];
+    const pendingCollections = scanResult.collections.filter((col) => {
+      const previous = findUnchangedSchema(existingSchema, col.name, createFingerprint(col, config));
+      // LLM 활성화 시 요약이 없는 기존 스키마는 다시 처리
+      if (!previous || (llmProvider && !previous.summary)) {
+        return true;
+      }
+      logger.debug(`Reusing unchanged collection: ${col.name}`);
+      reusedSchemas.push(previous);
+      return false;
+    });
+
+    if (reusedSchemas.length > 0) {
+      logger.info(`Skipping ${reusedSchemas.length} unchanged collections`);
+    }
+
     // 1단계: 스키마 수집 (병렬 처리)
-    logger.info(`Processing ${scanResult.collections.length} collections...`);
+    logger.info(`Processing ${pendingCollections.length} collections...`);
     let completedCount = 0;
-    const totalCount = scanResult.collections.length;
+    const totalCount = pendingCollections.length;
 
     const processResults = await runWithConcurrency(
-      scanResult.collections,
+      pendingCollections,
       async (col) => {
         try {
-          const result = await processCollection(db, col.name, config, llmProvider, existingDescriptions, explainOptions);
+          const result = await processCollection(db, col, config, llmProvider, existingDescriptions, explainOptions);
           completedCount++;
           logger.progressItem(completedCount, totalCount, col.name);
           return result;
@@ -335,17 +648,28 @@ export async function run(config: ResolvedConfig): Promise<number> {
     );
 
     // 성공한 결과만 수집
+    const referenceSamples = new Map<string, ReferenceSample[]>();
+    const bucketCounts: Record<string, SampleBucket[]> = {};
     for (const result of processResults) {
       if (result) {
         schemas.push(result.schema);
+        referenceSamples.set(result.schema.name, result.references);
+        if (result.buckets) {
+          bucketCounts[result.schema.name] = result.buckets;
+        }
         totalTruncation.depthTruncated += result.truncation.depthTruncated;
         totalTruncation.keysTruncated += result.truncation.keysTruncated;
         totalTruncation.arraysTruncated += result.truncation.arraysTruncated;
       }
     }
 
+    // 새로 처리한 컬렉션만 LLM 설명 대상
+    const processedSchemas = [...schemas];
+    schemas.push(...reusedSchemas);
+    schemas.sort((a, b) => a.name.localeCompare(b.name));
+
     // 2단계: LLM이 활성화된 경우 필드 설명 생성 (병렬 처리)
-    if (llmProvider && schemas.length > 0) {
+    if (llmProvider && processedSchemas.length > 0) {
       logger.info('Generating field descriptions...');
       const foreignKeyMap = collectForeignKeyFields(schemas);
 
@@ -355,7 +679,7 @@ export async function run(config: ResolvedConfig): Promise<number> {
 
       // 필드 설명 생성 (병렬)
       await runWithConcurrency(
-        schemas,
+        processedSchemas,
         async (schema) => {
           try {
             const existingCollection = existingDescriptions?.collections.get(schema.name);
@@ -395,6 +719,7 @@ export async function run(config: ResolvedConfig): Promise<number> {
                   ),
                   presentRatio: field.presentRatio,
                   examples: field.examples.map((e) => e.value),
+                  enumValues: field.enumValues && formatEnumValues(field.enumValues),
                   foreignKeyContext: fkContext,
                 };
               });
@@ -434,26 +759,73 @@ export async function run(config: ResolvedConfig): Promise<number> {
       );
     }
 
+    // validator dry-run (연결 해제 전 실행)
+    const validatorDryRun: ValidatorDryRunResult[] = [];
+    if (config.validatorDryRun && schemas.length > 0) {
+      logger.info(`Dry-running validators (${config.validatorStrictness})...`);
+      const options = VALIDATOR_PRESETS[config.validatorStrictness];
+
+      const results = await runWithConcurrency(
+        schemas,
+        (schema) => dryRunValidator(db.collection(schema.name), renderCollMod(schema, options).validator),
+        config.concurrency
+      );
+
+      for (const result of results) {
+        validatorDryRun.push(result);
+        if (result.failing !== null && result.failingRatio !== null) {
+          logger.info(
+            `${result.collection}: ${result.failing.toLocaleString()} of ~${result.estimatedCount.toLocaleString()} documents would fail (${(result.failingRatio * 100).toFixed(2)}%)`
+          );
+        }
+      }
+    }
+
+    // 참조 관계 분석 (verify 모드는 연결 해제 전 _id 대조)
+    let relations: Relation[] = [];
+    let verifiedRelations: VerifiedRelation[] | undefined;
+    if (config.relations === 'verify' && schemas.length > 0) {
+      logger.info('Verifying relations...');
+      verifiedRelations = await verifyRelations(
+        referenceSamples,
+        schemas,
+        createIdLookup(db),
+        { concurrency: config.concurrency },
+        createDuplicateLookup(db)
+      );
+
+      // 재사용한 컬렉션은 샘플이 없으므로 기존 검증 결과 유지
+      const reusedNames = new Set(reusedSchemas.map((s) => s.name));
+      const currentNames = new Set(schemas.map((s) => s.name));
+      const carriedOver = (existingSchema?.relations ?? []).filter(
+        (r) => reusedNames.has(r.from) && currentNames.has(r.to)
+      );
+      verifiedRelations = [...verifiedRelations, ...carriedOver].sort(
+        (a, b) => a.from.localeCompare(b.from) || a.path.localeCompare(b.path) || a.to.localeCompare(b.to)
+      );
+      relations = verifiedRelations;
+      logger.debug(`Verified ${verifiedRelations.length} relations`);
+    } else {
+      relations = inferRelations(schemas);
+    }
+
     // MongoDB 연결 해제
     await disconnect();
 
-    // pruneRemovedCollections='off'일 때 기존 컬렉션 설명 유지
-    if (config.pruneRemovedCollections === 'off' && existingDescriptions) {
-      const currentCollectionNames = new Set(schemas.map((s) => s.name));
-
-      for (const [collName] of existingDescriptions.collections) {
-        if (!currentCollectionNames.has(collName)) {
-          logger.info(`Preserving removed collection: ${collName}`);
-
-          // TODO: 기존 스키마 정보를 schemas 배열에 추가하는 로직 구현 필요
-          // 현재는 로그만 남기고, 향후 다음 작업 필요:
-          // 1. collData에서 CollectionSchema 재구성
-          // 2. estimatedCount, sampledCount는 0 또는 기존 값 유지
-          // 3. indexes, variants는 빈 배열로 설정
-          // 4. warnings에 "Preserved from previous run" 추가
-          // 5. schemas 배열에 추가
-        }
+    // pruneRemovedCollections='off'일 때 삭제된 컬렉션을 이전 스키마로 보존
+    if (config.pruneRemovedCollections === 'off' && previousSchema) {
+      const currentCollectionNames = new Set(scanResult.collections.map((c) => c.name));
+      const filter = { include: config.include, exclude: config.exclude };
+      const removedAt = formatDateWithOffset(new Date());
+
+      for (const [collName, previous] of Object.entries(previousSchema.collections)) {
+        // 필터 범위 밖의 컬렉션은 삭제된 것으로 판단하지 않음
+        if (currentCollectionNames.has(collName) || !matchesFilter(collName, filter)) continue;
+
+        logger.info(`Preserving removed collection: ${collName}`);
+        schemas.push(preserveRemovedCollection(previous, removedAt));
       }
+      schemas.sort((a, b) => a.name.localeCompare(b.name));
     }
 
     // 메타데이터 생성
@@ -461,7 +833,7 @@ export async function run(config: ResolvedConfig): Promise<number> {
       generatedAt: formatDateWithOffset(new Date()),
       database: config.db,
       sampling: {
-        strategy: config.timeField ? 'time-window' : config.match ? 'filtered' : 'random',
+        strategy: describeSamplingStrategy(config),
         size: config.sampleSize,
         timeField: config.timeField,
         timeWindowDays: config.timeWindowDays,
@@ -475,13 +847,30 @@ export async function run(config: ResolvedConfig): Promise<number> {
       truncationCounters: totalTruncation,
     };
 
+    // stratified 구간별 샘플 수 (재사용한 컬렉션은 이전 실행 값 유지)
+    if (config.samplingStrategy === 'stratified') {
+      const previousCounts = existingSchema?.meta.sampling.bucketCounts ?? {};
+      for (const schema of reusedSchemas) {
+        const previous = previousCounts[schema.name];
+        if (previous) {
+          bucketCounts[schema.name] = previous;
+        }
+      }
+      meta.sampling.buckets = config.samplingBuckets;
+      meta.sampling.bucketCounts = Object.fromEntries(
+        Object.entries(bucketCounts).sort(([a], [b]) => a.localeCompare(b))
+      );
+    }
+
     // 출력 렌더링
     logger.info('Generating documentation...');
 
     const dbOutDir = await ensureOutputDirs(config.out, config.db);
+    // ER 다이어그램과 추가 산출물은 삭제된 컬렉션을 제외
+    const activeSchemas = schemas.filter((s) => !s.removedAt);
 
     // README.md 작성
-    const readmeContent = renderReadme(schemas, meta);
+    const readmeContent = renderReadme(schemas, meta, relations);
     await writeFile(join(dbOutDir, 'README.md'), readmeContent, 'utf-8');
     logger.debug('Generated README.md');
 
@@ -492,8 +881,10 @@ export async function run(config: ResolvedConfig): Promise<number> {
       logger.debug(`Generated ${schema.name}.md`);
     }
 
-    // schema.json 작성
-    const schemaOutput = renderSchemaJson(schemas, meta);
+    // schema.json 작성 (덮어쓰기 전에 이전 스키마를 이력으로 보관)
+    const schemaOutput = renderSchemaJson(schemas, meta, verifiedRelations);
+    const historyArtifacts =
+      config.history === 'on' && previousSchema ? await writeHistory(dbOutDir, previousSchema, schemaOutput) : [];
     await writeFile(
       join(dbOutDir, 'artifacts', 'schema.json'),
       stringifySchemaJson(schemaOutput),
@@ -501,10 +892,21 @@ export async function run(config: ResolvedConfig): Promise<number> {
     );
     logger.debug('Generated schema.json');
 
+    // ER 다이어그램 작성
+    await writeFile(join(dbOutDir, 'artifacts', 'erd.mmd'), renderErDiagram(activeSchemas, relations), 'utf-8');
+    logger.debug('Generated erd.mmd');
+
+    // 추가 산출물 작성
+    const emitted = await writeEmitArtifacts(dbOutDir, activeSchemas, config, validatorDryRun, relations);
+
     logger.success(`Documentation generated in ${dbOutDir}/`);
     logger.info(`- README.md`);
     logger.info(`- collections/*.md (${schemas.length} files)`);
     logger.info(`- artifacts/schema.json`);
+    logger.info(`- artifacts/erd.mmd`);
+    for (const artifact of [...historyArtifacts, ...emitted]) {
+      logger.info(`- ${artifact}`);
+    }
 
     return EXIT_CODES.SUCCESS;
   } catch (error) {
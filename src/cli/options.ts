@@ -1,8 +1,12 @@
-import { Command } from "commander";
+import { Command, type OptionValues } from "commander";
 import {
+  CheckOptionsSchema,
   CLIOptionsSchema,
+  DiffOptionsSchema,
   ENV_VARS,
   type CLIOptions,
+  type DiffOptions,
+  type ParsedCommand,
   type ResolvedConfig,
 } from "../types/config";
 import pkg from "../../package.json";
@@ -16,22 +20,10 @@ function parseFloatOption(value: string | undefined): number | undefined {
 }
 
 /**
- * Parse CLI options and merge with environment variables
+ * Register sampling and inference options shared by run and check
  */
-export function parseOptions(argv: string[]): CLIOptions {
-  const program = new Command();
-
-  program
-    .name("explaindb")
-    .description(
-      "Sample MongoDB documents to infer schema and generate documentation"
-    )
-    .version(pkg.version)
-    .showHelpAfterError(true);
-
-  program
-    .command("run", { isDefault: true })
-    .description("Generate schema documentation")
+function addSamplingOptions(command: Command): Command {
+  return command
     .option("--uri <uri>", "MongoDB connection URI")
     .option("--db <db>", "Target database name")
     .option("--out <dir>", "Output directory", "./out")
@@ -42,6 +34,12 @@ export function parseOptions(argv: string[]): CLIOptions {
     .option("--time-window <days>", "Time window in days")
     .option("--match <json>", "MongoDB match filter (JSON)")
     .option("--sampling-strict", "Throw error on sampling failure", false)
+    .option("--sampling-strategy <random|stratified>", "Sampling strategy (stratified samples evenly across _id/time-field buckets)", "random")
+    .option("--sampling-buckets <n>", "Number of buckets for stratified sampling", "5")
+    .option("--adaptive-sampling", "Sample in --sample-size batches until the schema converges", false)
+    .option("--max-sample-size <n>", "Maximum documents per collection for adaptive sampling", "1000")
+    .option("--convergence-tolerance <n>", "Maximum presentRatio change between batches to treat as converged", "0.02")
+    .option("--exact", "Compute presence and type counts over the entire collection (server-side aggregation)", false)
     .option("--max-depth <n>", "Maximum nesting depth", "20")
     .option("--max-keys-per-doc <n>", "Maximum keys per document", "2000")
     .option("--max-array-sample <n>", "Maximum array elements to sample", "50")
@@ -51,27 +49,14 @@ export function parseOptions(argv: string[]): CLIOptions {
     .option("--redact <all|pii|off>", "Redaction level (all/pii/off)", "pii")
     .option("--redact-mode <strict|balanced>", "Redaction mode", "balanced")
     .option("--pii-patterns <patterns>", "Custom PII patterns (comma-separated)")
-    .option("--llm <on|off>", "Enable LLM documentation", "off")
-    .option("--llm-provider <provider>", "LLM provider", "bedrock")
-    .option("--llm-model <model>", "LLM model")
-    .option("--llm-region <region>", "LLM region")
-    .option("--llm-cache <on|off>", "Enable LLM cache", "on")
-    .option("--llm-max-fields <n>", "Maximum fields for LLM processing")
     .option("--concurrency <n>", "Concurrency level", "5")
-    .option("--incremental <on|off>", "Incremental mode", "on")
-    .option("--force", "Force full regeneration", false)
-    .option("--prune-removed-collections <on|off>", "Prune removed collections", "on")
     .option("--verbose", "Verbose logging", false);
+}
 
-  program.parse(argv);
-
-  const cmd = program.commands.find((c) => c.name() === "run");
-  if (!cmd) {
-    return CLIOptionsSchema.parse({});
-  }
-
-  const opts = cmd.opts();
-
+/**
+ * Map commander option values to CLIOptionsSchema input
+ */
+function toRawOptions(opts: OptionValues): Record<string, unknown> {
   const rawOptions = {
     uri: opts.uri,
     db: opts.db,
@@ -83,6 +68,12 @@ export function parseOptions(argv: string[]): CLIOptions {
     timeWindowDays: parseIntOption(opts.timeWindow),
     match: opts.match,
     samplingStrict: opts.samplingStrict,
+    samplingStrategy: opts.samplingStrategy,
+    samplingBuckets: parseIntOption(opts.samplingBuckets),
+    adaptiveSampling: opts.adaptiveSampling,
+    maxSampleSize: parseIntOption(opts.maxSampleSize),
+    convergenceTolerance: parseFloatOption(opts.convergenceTolerance),
+    exact: opts.exact,
     maxDepth: parseIntOption(opts.maxDepth),
     maxKeysPerDoc: parseIntOption(opts.maxKeysPerDoc),
     maxArraySample: parseIntOption(opts.maxArraySample),
@@ -98,10 +89,124 @@ export function parseOptions(argv: string[]): CLIOptions {
     llmRegion: opts.llmRegion,
     llmCache: opts.llmCache,
     llmMaxFields: parseIntOption(opts.llmMaxFields),
+    emit: opts.emit ? opts.emit.split(",").map((f: string) => f.trim()) : undefined,
+    validatorStrictness: opts.validatorStrictness,
+    validatorDryRun: opts.validatorDryRun,
+    relations: opts.relations,
     concurrency: parseIntOption(opts.concurrency),
     incremental: opts.incremental,
     force: opts.force,
     pruneRemovedCollections: opts.pruneRemovedCollections,
+    history: opts.history,
+    verbose: opts.verbose,
+  };
+
+  return Object.fromEntries(
+    Object.entries(rawOptions).filter(([, v]) => v !== undefined)
+  );
+}
+
+/**
+ * Parse CLI options and merge with environment variables
+ */
+export function parseOptions(argv: string[]): ParsedCommand {
+  const program = new Command();
+  let selected = "run";
+
+  program
+    .name("explaindb")
+    .description(
+      "Sample MongoDB documents to infer schema and generate documentation"
+    )
+    .version(pkg.version)
+    .showHelpAfterError(true);
+
+  addSamplingOptions(
+    program
+      .command("run", { isDefault: true })
+      .description("Generate schema documentation")
+  )
+    .option("--llm <on|off>", "Enable LLM documentation", "off")
+    .option("--llm-provider <provider>", "LLM provider", "bedrock")
+    .option("--llm-model <model>", "LLM model")
+    .option("--llm-region <region>", "LLM region")
+    .option("--llm-cache <on|off>", "Enable LLM cache", "on")
+    .option("--llm-max-fields <n>", "Maximum fields for LLM processing")
+    .option("--incremental <on|off>", "Incremental mode", "on")
+    .option("--force", "Force full regeneration", false)
+    .option("--prune-removed-collections <on|off>", "Prune removed collections", "on")
+    .option("--history <on|off>", "Archive previous schema.json and update CHANGELOG.md", "off")
+    .option("--relations <name|verify>", "Relation detection (verify checks sampled values against _id)", "name")
+    .option("--emit <formats>", "Extra artifacts to generate (comma-separated: jsonschema,validator,typescript,zod,mongoose)")
+    .option("--validator-strictness <strict|moderate|loose>", "$jsonSchema validator strictness", "moderate")
+    .option("--validator-dry-run", "Count existing documents failing the generated validator", false)
+    .action(() => {
+      selected = "run";
+    });
+
+  addSamplingOptions(
+    program
+      .command("check")
+      .description("Check live schema against a baseline schema.json contract")
+  )
+    .option("--baseline <file>", "Baseline schema.json (default: {out}/{db}/artifacts/schema.json)")
+    .option("--rules <file>", "Contract rules file (JSON)")
+    .action(() => {
+      selected = "check";
+    });
+
+  program
+    .command("diff")
+    .description("Compare two schema.json artifacts")
+    .argument("<base>", "Base schema.json path")
+    .argument("<head>", "Head schema.json path")
+    .option("--format <markdown|json|table>", "Output format", "table")
+    .option("--out <file>", "Write output to file instead of stdout")
+    .option("--ratio-threshold <n>", "Minimum ratio change to report", "0.05")
+    .option("--verbose", "Verbose logging", false)
+    .action(() => {
+      selected = "diff";
+    });
+
+  program.parse(argv);
+
+  if (selected === "diff") {
+    return { command: "diff", options: parseDiffOptions(program) };
+  }
+
+  if (selected === "check") {
+    const cmd = program.commands.find((c) => c.name() === "check");
+    const opts = cmd?.opts() ?? {};
+    const options = CheckOptionsSchema.parse({
+      ...toRawOptions(opts),
+      ...(opts.baseline ? { baseline: opts.baseline } : {}),
+      ...(opts.rules ? { rules: opts.rules } : {}),
+    });
+    return { command: "check", options };
+  }
+
+  const cmd = program.commands.find((c) => c.name() === "run");
+  if (!cmd) {
+    return { command: "run", options: CLIOptionsSchema.parse({}) };
+  }
+
+  return { command: "run", options: CLIOptionsSchema.parse(toRawOptions(cmd.opts())) };
+}
+
+/**
+ * Parse diff command arguments and options
+ */
+function parseDiffOptions(program: Command): DiffOptions {
+  const cmd = program.commands.find((c) => c.name() === "diff");
+  const [base, head] = cmd?.args ?? [];
+  const opts = cmd?.opts() ?? {};
+
+  const rawOptions = {
+    base,
+    head,
+    format: opts.format,
+    out: opts.out,
+    ratioThreshold: parseFloatOption(opts.ratioThreshold),
     verbose: opts.verbose,
   };
 
@@ -109,14 +214,14 @@ export function parseOptions(argv: string[]): CLIOptions {
     Object.entries(rawOptions).filter(([, v]) => v !== undefined)
   );
 
-  return CLIOptionsSchema.parse(filteredOptions);
+  return DiffOptionsSchema.parse(filteredOptions);
 }
 
 /**
  * Resolve config by merging CLI options with environment variables.
  * CLI arguments take precedence over environment variables.
  */
-export function resolveConfig(options: CLIOptions): ResolvedConfig {
+export function resolveConfig<T extends CLIOptions>(options: T): T & Pick<ResolvedConfig, "uri" | "db"> {
   const uri = options.uri || process.env[ENV_VARS.URI];
   const db = options.db || process.env[ENV_VARS.DB];
 
@@ -0,0 +1,162 @@
+import { minimatch } from 'minimatch';
+import { BsonType } from '../../types/bson';
+import type { ContractRule } from '../../types/config';
+import type { ContractRuleId, ContractSeverity, ContractViolation } from '../../types/contract';
+import type { CollectionSchema, FieldSchema, SchemaOutput } from '../../types/schema';
+import { stableSort } from '../../utils/sort';
+
+/**
+ * 규칙별 기본 심각도
+ */
+export const DEFAULT_RULE_SEVERITIES: Record<ContractRuleId, ContractSeverity> = {
+  'required-became-optional': 'error',
+  'new-mixed-type': 'error',
+  'collection-removed': 'error',
+  'new-pii-hint': 'warn',
+};
+
+export interface ContractCheckOptions {
+  rules: ContractRule[];
+  // 관찰 대상에서 제외된 컬렉션은 collection-removed로 보고하지 않기 위한 필터
+  isInScope: (collectionName: string) => boolean;
+}
+
+const DEFAULT_OPTIONS: ContractCheckOptions = {
+  rules: [],
+  isInScope: () => true,
+};
+
+/**
+ * 컬렉션/경로에 적용되는 규칙 심각도 결정
+ * 매칭되는 규칙 중 마지막 항목이 우선
+ */
+export function resolveSeverity(
+  ruleId: ContractRuleId,
+  collection: string,
+  path: string | undefined,
+  rules: ContractRule[]
+): ContractSeverity {
+  let severity = DEFAULT_RULE_SEVERITIES[ruleId];
+
+  for (const rule of rules) {
+    if (rule.rule !== ruleId) continue;
+    if (rule.collection && !minimatch(collection, rule.collection)) continue;
+    // 경로 패턴은 필드 단위 규칙에만 적용
+    if (rule.path && (path === undefined || !minimatch(path, rule.path))) continue;
+    severity = rule.severity;
+  }
+
+  return severity;
+}
+
+/**
+ * 필드에서 관찰된 의미 있는 타입 (null/undefined 제외)
+ */
+function meaningfulTypes(field: FieldSchema): BsonType[] {
+  return (Object.keys(field.typeRatio) as BsonType[]).filter(
+    (t) => t !== BsonType.Null && t !== BsonType.Undefined
+  );
+}
+
+/**
+ * 단일 컬렉션의 필드 규칙 검사
+ */
+function checkCollection(
+  baseline: CollectionSchema,
+  observed: CollectionSchema,
+  rules: ContractRule[]
+): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const baselineFields = new Map(baseline.fields.map((f) => [f.path, f]));
+  const observedPaths = new Set(observed.fields.map((f) => f.path));
+
+  function report(ruleId: ContractRuleId, path: string, message: string): void {
+    const severity = resolveSeverity(ruleId, observed.name, path, rules);
+    if (severity === 'off') return;
+    violations.push({ rule: ruleId, severity, collection: observed.name, path, message });
+  }
+
+  for (const field of observed.fields) {
+    const previous = baselineFields.get(field.path);
+
+    if (previous && !previous.optional && field.optional) {
+      report(
+        'required-became-optional',
+        field.path,
+        `Required field became optional (present ${Math.round(previous.presentRatio * 100)}% → ${Math.round(field.presentRatio * 100)}%)`
+      );
+    }
+
+    if (field.mixedType) {
+      const knownTypes = new Set(previous ? meaningfulTypes(previous) : []);
+      const newTypes = meaningfulTypes(field).filter((t) => !knownTypes.has(t));
+      // 기준 스키마에 이미 있던 타입 조합은 허용
+      if (newTypes.length > 0) {
+        report('new-mixed-type', field.path, `New mixed type: ${newTypes.join(', ')}`);
+      }
+    }
+
+    const knownHints = new Set(previous?.hints ?? []);
+    const newHints = field.hints.filter((h) => !knownHints.has(h));
+    if (newHints.length > 0) {
+      report('new-pii-hint', field.path, `New PII hints: ${newHints.join(', ')}`);
+    }
+  }
+
+  // 기준에서 required였지만 샘플에서 전혀 관찰되지 않은 필드
+  for (const previous of baseline.fields) {
+    if (previous.optional || observedPaths.has(previous.path)) continue;
+    report(
+      'required-became-optional',
+      previous.path,
+      `Required field no longer observed (present ${Math.round(previous.presentRatio * 100)}% → 0%)`
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * 관찰된 컬렉션 스키마를 기준 schema.json과 비교하여 계약 위반 검사
+ */
+export function checkContract(
+  baseline: SchemaOutput,
+  observed: CollectionSchema[],
+  options: Partial<ContractCheckOptions> = {}
+): ContractViolation[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const violations: ContractViolation[] = [];
+  const observedMap = new Map(observed.map((c) => [c.name, c]));
+
+  for (const [name, baselineCollection] of Object.entries(baseline.collections)) {
+    if (!opts.isInScope(name)) continue;
+
+    const current = observedMap.get(name);
+    if (!current) {
+      // 기준에서 이미 삭제된 컬렉션으로 보존된 경우는 위반이 아님
+      if (baselineCollection.removedAt) continue;
+
+      const severity = resolveSeverity('collection-removed', name, undefined, opts.rules);
+      if (severity !== 'off') {
+        violations.push({
+          rule: 'collection-removed',
+          severity,
+          collection: name,
+          message: 'Collection no longer exists',
+        });
+      }
+      continue;
+    }
+
+    violations.push(...checkCollection(baselineCollection, current, opts.rules));
+  }
+
+  return stableSort(violations, (v) => `${v.collection}\u0000${v.path ?? ''}\u0000${v.rule}`);
+}
+
+/**
+ * error 심각도 위반이 있는지 확인
+ */
+export function hasContractErrors(violations: ContractViolation[]): boolean {
+  return violations.some((v) => v.severity === 'error');
+}
@@ -0,0 +1,274 @@
+import type { BsonType } from '../../types/bson';
+import type {
+  CollectionSchema,
+  ConfidenceInterval,
+  FieldSchema,
+  IndexInfo,
+  SchemaOutput,
+  Variant,
+} from '../../types/schema';
+import type {
+  CollectionDiff,
+  FieldChange,
+  IndexChanges,
+  SchemaDiff,
+  TypeRatioShift,
+  VariantChanges,
+} from '../../types/diff';
+import { sortPaths, stableSort } from '../../utils/sort';
+
+export interface SchemaDiffOptions {
+  ratioThreshold: number; // 이 값 이상 변한 비율만 보고
+}
+
+const DEFAULT_OPTIONS: SchemaDiffOptions = {
+  ratioThreshold: 0.05,
+};
+
+// 변종 설명에 표시할 최대 path 수
+const MAX_VARIANT_LABEL_PATHS = 5;
+
+/**
+ * 두 신뢰구간이 겹치지 않는지 확인
+ * 구간이 없으면(전수 집계 등) 값 자체를 신뢰하여 true
+ */
+function isSeparated(before: ConfidenceInterval | undefined, after: ConfidenceInterval | undefined): boolean {
+  if (!before || !after) return true;
+  return before.upper < after.lower || after.upper < before.lower;
+}
+
+/**
+ * 두 타입 비율 간 변화 계산
+ * 샘플 잡음을 제외하기 위해 신뢰구간이 겹치는 비율 변화는 보고하지 않음
+ */
+function diffTypeRatio(before: FieldSchema, after: FieldSchema, threshold: number): TypeRatioShift[] {
+  const types = new Set([...Object.keys(before.typeRatio), ...Object.keys(after.typeRatio)] as BsonType[]);
+  const shifts: TypeRatioShift[] = [];
+
+  for (const type of types) {
+    const beforeRatio = before.typeRatio[type] ?? 0;
+    const afterRatio = after.typeRatio[type] ?? 0;
+    // 타입이 새로 생기거나 사라진 경우는 임계값과 무관하게 보고
+    const appeared = beforeRatio === 0 || afterRatio === 0;
+    if (beforeRatio === afterRatio) continue;
+    if (
+      appeared ||
+      (Math.abs(afterRatio - beforeRatio) >= threshold &&
+        isSeparated(before.typeIntervals?.[type], after.typeIntervals?.[type]))
+    ) {
+      shifts.push({ type, before: beforeRatio, after: afterRatio });
+    }
+  }
+
+  return shifts.sort((a, b) => a.type.localeCompare(b.type));
+}
+
+/**
+ * 필드 단위 변경 사항 계산
+ * 존재 비율/optional 변화는 두 실행의 presentInterval이 겹치지 않을 때만 보고 (샘플 잡음 제외)
+ * 보고할 변경이 없으면 null 반환
+ */
+export function diffField(
+  before: FieldSchema,
+  after: FieldSchema,
+  options: Partial<SchemaDiffOptions> = {}
+): FieldChange | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const change: FieldChange = {
+    path: after.path,
+    typeShifts: diffTypeRatio(before, after, opts.ratioThreshold),
+  };
+  const presenceSeparated = isSeparated(before.presentInterval, after.presentInterval);
+
+  if (Math.abs(after.presentRatio - before.presentRatio) >= opts.ratioThreshold && presenceSeparated) {
+    change.presentRatio = { before: before.presentRatio, after: after.presentRatio };
+  }
+
+  if (before.optional !== after.optional && presenceSeparated) {
+    change.optional = { before: before.optional, after: after.optional };
+  }
+
+  const hasChange =
+    change.typeShifts.length > 0 || change.presentRatio !== undefined || change.optional !== undefined;
+
+  return hasChange ? change : null;
+}
+
+/**
+ * 인덱스 정의 비교용 문자열
+ * key는 필드 순서가 의미를 가지므로 정렬하지 않음
+ */
+function indexDefinition(idx: IndexInfo): string {
+  return JSON.stringify([idx.key, idx.unique, idx.sparse ?? false, idx.expireAfterSeconds ?? null]);
+}
+
+/**
+ * 인덱스 변경 사항 계산
+ * 같은 이름이지만 key/옵션이 달라진 경우 changed로 분류
+ */
+function diffIndexes(before: IndexInfo[], after: IndexInfo[]): IndexChanges {
+  const beforeMap = new Map(before.map((idx) => [idx.name, idx]));
+  const afterMap = new Map(after.map((idx) => [idx.name, idx]));
+
+  const added = after.filter((idx) => !beforeMap.has(idx.name)).map((idx) => idx.name);
+  const removed = before.filter((idx) => !afterMap.has(idx.name)).map((idx) => idx.name);
+  const changed: string[] = [];
+
+  for (const [name, idx] of afterMap) {
+    const previous = beforeMap.get(name);
+    if (previous && indexDefinition(previous) !== indexDefinition(idx)) {
+      changed.push(name);
+    }
+  }
+
+  return { added: added.sort(), removed: removed.sort(), changed: changed.sort() };
+}
+
+/**
+ * 변종 설명 생성
+ * 판별자 값이 있으면 field=value, 없으면 주 변종 대비 추가(+)/누락(-) path
+ */
+function describeVariant(variant: Variant, discriminator?: string): string {
+  if (discriminator && variant.discriminatorValues && variant.discriminatorValues.length > 0) {
+    return `${discriminator}=${variant.discriminatorValues.join('/')}`;
+  }
+
+  const parts = [
+    ...variant.diff.addedPaths.map((p) => `+${p}`),
+    ...variant.diff.missingPaths.map((p) => `-${p}`),
+  ];
+  if (parts.length === 0) {
+    return `primary (${variant.paths.length} paths)`;
+  }
+  const truncated = parts.length > MAX_VARIANT_LABEL_PATHS;
+  return `${parts.slice(0, MAX_VARIANT_LABEL_PATHS).join(', ')}${truncated ? ', ...' : ''}`;
+}
+
+/**
+ * 변종 변경 사항 계산
+ */
+function diffVariants(before: CollectionSchema, after: CollectionSchema): VariantChanges {
+  const beforeSigs = new Set(before.variants.map((v) => v.signature));
+  const afterSigs = new Set(after.variants.map((v) => v.signature));
+
+  const added = [...afterSigs].filter((sig) => !beforeSigs.has(sig)).sort();
+  const removed = [...beforeSigs].filter((sig) => !afterSigs.has(sig)).sort();
+
+  const labels: Record<string, string> = {};
+  for (const variant of after.variants) {
+    if (added.includes(variant.signature)) labels[variant.signature] = describeVariant(variant, after.discriminator);
+  }
+  for (const variant of before.variants) {
+    if (removed.includes(variant.signature)) labels[variant.signature] = describeVariant(variant, before.discriminator);
+  }
+
+  return { added, removed, labels };
+}
+
+/**
+ * 컬렉션 변경 사항이 비어있는지 확인
+ */
+export function isEmptyCollectionDiff(diff: CollectionDiff): boolean {
+  return (
+    diff.addedFields.length === 0 &&
+    diff.removedFields.length === 0 &&
+    diff.changedFields.length === 0 &&
+    diff.indexes.added.length === 0 &&
+    diff.indexes.removed.length === 0 &&
+    diff.indexes.changed.length === 0 &&
+    diff.variants.added.length === 0 &&
+    diff.variants.removed.length === 0
+  );
+}
+
+/**
+ * 두 컬렉션 스키마 비교
+ */
+export function diffCollection(
+  before: CollectionSchema,
+  after: CollectionSchema,
+  options: Partial<SchemaDiffOptions> = {}
+): CollectionDiff {
+  const beforeFields = new Map(before.fields.map((f) => [f.path, f]));
+  const afterFields = new Map(after.fields.map((f) => [f.path, f]));
+
+  const addedFields = after.fields.filter((f) => !beforeFields.has(f.path)).map((f) => f.path);
+  const removedFields = before.fields.filter((f) => !afterFields.has(f.path)).map((f) => f.path);
+
+  const changedFields: FieldChange[] = [];
+  for (const field of after.fields) {
+    const previous = beforeFields.get(field.path);
+    if (!previous) continue;
+
+    const change = diffField(previous, field, options);
+    if (change) {
+      changedFields.push(change);
+    }
+  }
+
+  return {
+    name: after.name,
+    addedFields: sortPaths(addedFields),
+    removedFields: sortPaths(removedFields),
+    changedFields: stableSort(changedFields, (c) => c.path),
+    indexes: diffIndexes(before.indexes, after.indexes),
+    variants: diffVariants(before, after),
+  };
+}
+
+/**
+ * 현재 존재하는 컬렉션 이름 목록
+ */
+function getLiveCollectionNames(output: SchemaOutput): string[] {
+  return Object.entries(output.collections)
+    .filter(([, collection]) => !collection.removedAt)
+    .map(([name]) => name);
+}
+
+/**
+ * 두 schema.json 출력 비교
+ * 변경이 없는 컬렉션은 결과에서 제외
+ */
+export function diffSchemas(
+  base: SchemaOutput,
+  head: SchemaOutput,
+  options: Partial<SchemaDiffOptions> = {}
+): SchemaDiff {
+  // 삭제된 컬렉션으로 보존된 항목(removedAt)은 존재하지 않는 것으로 취급
+  const baseNames = getLiveCollectionNames(base);
+  const headNames = getLiveCollectionNames(head);
+
+  const addedCollections = headNames.filter((name) => !baseNames.includes(name));
+  const removedCollections = baseNames.filter((name) => !headNames.includes(name));
+
+  const collections: CollectionDiff[] = [];
+  for (const name of headNames) {
+    const before = base.collections[name];
+    const after = head.collections[name];
+    if (!before || !after || before.removedAt) continue;
+
+    const diff = diffCollection(before, after, options);
+    if (!isEmptyCollectionDiff(diff)) {
+      collections.push(diff);
+    }
+  }
+
+  return {
+    base: { database: base.meta.database, generatedAt: base.meta.generatedAt },
+    head: { database: head.meta.database, generatedAt: head.meta.generatedAt },
+    addedCollections: stableSort(addedCollections, (n) => n),
+    removedCollections: stableSort(removedCollections, (n) => n),
+    collections: stableSort(collections, (c) => c.name),
+  };
+}
+
+/**
+ * diff 결과에 변경 사항이 있는지 확인
+ */
+export function hasSchemaChanges(diff: SchemaDiff): boolean {
+  return (
+    diff.addedCollections.length > 0 ||
+    diff.removedCollections.length > 0 ||
+    diff.collections.length > 0
+  );
+}
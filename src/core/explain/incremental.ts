@@ -1,4 +1,4 @@
-import type { SchemaOutput } from '../../types/schema';
+import type { CollectionFingerprint, CollectionSchema, SchemaOutput } from '../../types/schema';
 
 /**
  * 기존 schema.json에서 추출한 설명 정보
@@ -61,3 +61,53 @@ export function extractDescriptions(
 
   return { collections };
 }
+
+/**
+ * fingerprint가 변경되지 않은 컬렉션의 기존 스키마 반환
+ * 기존 스키마에 fingerprint가 없거나 하나라도 다르면 null
+ */
+export function findUnchangedSchema(
+  schema: SchemaOutput | null,
+  collectionName: string,
+  fingerprint: CollectionFingerprint,
+): CollectionSchema | null {
+  const previous = schema?.collections[collectionName];
+  const previousFingerprint = previous?.fingerprint;
+
+  if (
+    !previous ||
+    !previousFingerprint ||
+    previousFingerprint.indexes !== fingerprint.indexes ||
+    previousFingerprint.data !== fingerprint.data ||
+    previousFingerprint.options !== fingerprint.options
+  ) {
+    return null;
+  }
+
+  return previous;
+}
+
+/**
+ * 삭제된 컬렉션 보존 시 추가하는 경고
+ */
+export const PRESERVED_WARNING = 'Preserved from previous run';
+
+/**
+ * 이전 실행의 컬렉션 스키마를 삭제된 컬렉션으로 보존
+ * 문서화된 내용은 그대로 두고 fingerprint만 제거하며, 이미 보존된 컬렉션이면 최초 삭제 시각 유지
+ */
+export function preserveRemovedCollection(
+  previous: CollectionSchema,
+  removedAt: string,
+): CollectionSchema {
+  const warnings = previous.warnings.includes(PRESERVED_WARNING)
+    ? previous.warnings
+    : [...previous.warnings, PRESERVED_WARNING];
+
+  return {
+    ...previous,
+    warnings,
+    fingerprint: undefined,
+    removedAt: previous.removedAt ?? removedAt,
+  };
+}
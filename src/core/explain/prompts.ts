@@ -43,6 +43,7 @@ export function buildFieldDescriptionsPrompt(inputs: FieldDescriptionInput[]): s
       .map(([type, ratio]) => `${type}(${Math.round(ratio * 100)}%)`)
       .join(', ');
     const examplesStr = input.examples.slice(0, 3).join(', ');
+    const enumStr = input.enumValues?.length ? `\n허용 값: ${input.enumValues.join(', ')}` : '';
     const foreignKeyStr = input.foreignKeyContext?.length
       ? `\n외래키 컨텍스트: ${input.foreignKeyContext.join(', ')}`
       : '';
@@ -50,7 +51,7 @@ export function buildFieldDescriptionsPrompt(inputs: FieldDescriptionInput[]): s
     return `필드: ${input.path}
 타입: ${typeRatioStr}
 존재율: ${Math.round(input.presentRatio * 100)}%
-예시: ${examplesStr}${foreignKeyStr}`;
+예시: ${examplesStr}${enumStr}${foreignKeyStr}`;
   }).join('\n\n');
 
   return `당신은 MongoDB 필드 분석 전문가입니다.
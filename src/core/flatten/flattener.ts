@@ -1,7 +1,8 @@
-import type { FlattenResult, PathValue, TruncationCounters } from '../../types/schema';
+import type { FlattenResult, MapKeyPattern, PathValue, TruncationCounters } from '../../types/schema';
 import { BsonType, detectBsonType } from '../../types/bson';
 import { escapeKey, joinPath, formatArrayIndex, normalizeArrayIndex, splitPath } from './escaping';
 import { createLimits, type FlattenLimits } from './limits';
+import { detectMapKeys, MAP_WILDCARD } from './mapKeys';
 
 export type FlattenOptions = Partial<FlattenLimits>;
 
@@ -15,6 +16,7 @@ export function flatten(
 ): FlattenResult {
   const limits = createLimits(options);
   const paths = new Map<string, PathValue[]>();
+  const mapKeys = new Map<string, MapKeyPattern>();
   const counters: TruncationCounters = {
     depthTruncated: 0,
     keysTruncated: 0,
@@ -22,17 +24,22 @@ export function flatten(
   };
 
   let keyCount = 0;
+  let mapDepth = 0; // 현재 순회 중인 동적 키 맵 중첩 수
 
   function addPath(path: string, value: unknown, type: BsonType): void {
-    if (keyCount >= limits.maxKeysPerDoc) {
+    const existing = paths.get(path);
+
+    // 동적 키 맵 안에서는 합쳐진 path 단위로만 키 예산에 반영
+    const counted = !(mapDepth > 0 && existing);
+    if (counted && keyCount >= limits.maxKeysPerDoc) {
       counters.keysTruncated++;
       return;
     }
 
-    const existing = paths.get(path) || [];
-    existing.push({ value, type, docIndex });
-    paths.set(path, existing);
-    keyCount++;
+    const values = existing || [];
+    values.push({ value, type, docIndex });
+    paths.set(path, values);
+    if (counted) keyCount++;
   }
 
   function traverse(obj: unknown, currentPath: string, depth: number): void {
@@ -119,6 +126,23 @@ export function flatten(
     addPath(currentPath, obj, type);
 
     const keys = Object.keys(objRecord);
+
+    // 키가 모두 날짜/ObjectId/UUID/숫자 형태인 동적 키 맵은 {*} 하나로 합치고 일부 항목만 샘플링
+    const mapPattern = detectMapKeys(keys, limits.minMapKeys);
+    if (mapPattern) {
+      if (!mapKeys.has(currentPath)) {
+        mapKeys.set(currentPath, mapPattern);
+      }
+      const mapPath = joinPath(currentPath, MAP_WILDCARD);
+      const sampleSize = Math.min(keys.length, limits.maxMapSample);
+      mapDepth++;
+      for (const key of keys.slice(0, sampleSize)) {
+        traverse(objRecord[key], mapPath, depth + 1);
+      }
+      mapDepth--;
+      return;
+    }
+
     for (const key of keys) {
       const escapedKey = escapeKey(key);
       const newPath = currentPath ? joinPath(currentPath, escapedKey) : escapedKey;
@@ -133,7 +157,14 @@ export function flatten(
     traverse(doc[key], escapedKey, 1);
   }
 
-  return { paths, truncationCounters: counters };
+  return { paths, truncationCounters: counters, mapKeys };
+}
+
+/**
+ * 단일 path의 배열 인덱스를 [*]로 변환
+ */
+function normalizePath(path: string): string {
+  return joinPath(...splitPath(path).map((seg) => normalizeArrayIndex(seg)));
 }
 
 /**
@@ -144,10 +175,7 @@ function normalizePathsToWildcard(paths: Map<string, PathValue[]>): Map<string,
   const normalized = new Map<string, PathValue[]>();
 
   for (const [path, values] of paths) {
-    // path를 segment로 분할하고 배열 인덱스를 [*]로 변환
-    const segments = splitPath(path);
-    const normalizedSegments = segments.map(seg => normalizeArrayIndex(seg));
-    const normalizedPath = joinPath(...normalizedSegments);
+    const normalizedPath = normalizePath(path);
 
     // 동일 wildcard 경로의 값들을 병합
     const existing = normalized.get(normalizedPath) || [];
@@ -162,6 +190,7 @@ function normalizePathsToWildcard(paths: Map<string, PathValue[]>): Map<string,
  */
 export function mergeFlattenResults(results: FlattenResult[]): FlattenResult {
   const merged = new Map<string, PathValue[]>();
+  const mapKeys = new Map<string, MapKeyPattern>();
   const counters: TruncationCounters = {
     depthTruncated: 0,
     keysTruncated: 0,
@@ -175,6 +204,14 @@ export function mergeFlattenResults(results: FlattenResult[]): FlattenResult {
       merged.set(path, [...existing, ...values]);
     }
 
+    // 동적 키 맵 패턴 병합 (먼저 관찰된 패턴 유지)
+    for (const [path, pattern] of result.mapKeys ?? []) {
+      const normalizedPath = normalizePath(path);
+      if (!mapKeys.has(normalizedPath)) {
+        mapKeys.set(normalizedPath, pattern);
+      }
+    }
+
     // 카운터 합산
     counters.depthTruncated += result.truncationCounters.depthTruncated;
     counters.keysTruncated += result.truncationCounters.keysTruncated;
@@ -184,5 +221,5 @@ export function mergeFlattenResults(results: FlattenResult[]): FlattenResult {
   // 배열 인덱스를 wildcard로 정규화
   const normalizedPaths = normalizePathsToWildcard(merged);
 
-  return { paths: normalizedPaths, truncationCounters: counters };
+  return { paths: normalizedPaths, truncationCounters: counters, mapKeys };
 }
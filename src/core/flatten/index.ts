@@ -1,2 +1,3 @@
 export * from './escaping';
 export * from './limits';
+export * from './mapKeys';
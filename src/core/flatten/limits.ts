@@ -6,6 +6,8 @@ export interface FlattenLimits {
   maxDepth: number;
   maxKeysPerDoc: number;
   maxArraySample: number;
+  maxMapSample: number;
+  minMapKeys: number;
 }
 
 /**
@@ -15,6 +17,8 @@ export const DEFAULT_LIMITS: FlattenLimits = {
   maxDepth: 20,
   maxKeysPerDoc: 2000,
   maxArraySample: 50,
+  maxMapSample: 50,
+  minMapKeys: 2,
 };
 
 /**
@@ -40,4 +44,10 @@ export function validateLimits(limits: FlattenLimits): void {
   if (limits.maxArraySample < 1 || limits.maxArraySample > 1000) {
     throw new Error('maxArraySample must be between 1 and 1000');
   }
+  if (limits.maxMapSample < 1 || limits.maxMapSample > 1000) {
+    throw new Error('maxMapSample must be between 1 and 1000');
+  }
+  if (limits.minMapKeys < 1) {
+    throw new Error('minMapKeys must be at least 1');
+  }
 }
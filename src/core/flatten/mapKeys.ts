@@ -0,0 +1,38 @@
+import type { MapKeyPattern } from '../../types/schema';
+
+/**
+ * 동적 키 맵의 키를 대체하는 path segment (배열의 [*]에 대응)
+ */
+export const MAP_WILDCARD = '{*}';
+
+// 키 패턴 판별 규칙 (앞선 규칙이 우선)
+const KEY_PATTERNS: [MapKeyPattern, RegExp][] = [
+  ['date', /^\d{4}-\d{2}(-\d{2}([T ]\d{2}(:\d{2}){0,2})?)?$/],
+  ['objectId', /^[0-9a-f]{24}$/i],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['number', /^-?\d+(\.\d+)?$/],
+];
+
+/**
+ * 키가 날짜/ObjectId/UUID/숫자 형태인지 판별
+ */
+export function detectKeyPattern(key: string): MapKeyPattern | null {
+  for (const [pattern, regex] of KEY_PATTERNS) {
+    if (regex.test(key)) return pattern;
+  }
+  return null;
+}
+
+/**
+ * 객체의 모든 키가 같은 동적 키 패턴이면 해당 패턴 반환 (동적 키 맵)
+ * 키가 minKeys개 미만이거나 패턴이 섞여 있으면 null
+ */
+export function detectMapKeys(keys: string[], minKeys: number = 2): MapKeyPattern | null {
+  const first = keys[0];
+  if (first === undefined || keys.length < minKeys) return null;
+
+  const pattern = detectKeyPattern(first);
+  if (!pattern) return null;
+
+  return keys.every((key) => detectKeyPattern(key) === pattern) ? pattern : null;
+}
@@ -1,8 +1,13 @@
 import type { BsonType } from '../../types/bson';
-import type { FieldSchema, PathValue, RedactedExample } from '../../types/schema';
+import type { ConfidenceInterval, ExactPathStats, FieldSchema, PathValue, RedactedExample } from '../../types/schema';
 import { mask } from '../redact/masker';
-import { detectPII, hasPII } from '../redact/detector';
-import { calculateStats } from './stats';
+import { detectPII, hasPII, isPIIField } from '../redact/detector';
+import { calculateStats, wilsonInterval } from './stats';
+import { estimateFieldCardinality } from './cardinality';
+import { collectEnumValues } from './enums';
+import { profileStrings } from './strings';
+import { profileDates } from './dates';
+import { profileArrays } from './arrays';
 import { getTypeDistribution, calculateTypeRatio, hasMixedTypes, isNumericType } from './analyzer';
 
 export interface AggregateOptions {
@@ -135,6 +140,14 @@ export function aggregatePath(
   // optional 여부 판단
   const optional = presentRatio < opts.optionalThreshold;
 
+  // 신뢰구간 계산 (구간이 임계값에 걸치면 optional 판단이 불확실)
+  const presentInterval = wilsonInterval(presentDocs, opts.totalDocs);
+  const uncertain = presentInterval.lower < opts.optionalThreshold && presentInterval.upper >= opts.optionalThreshold;
+  const typeIntervals: Partial<Record<BsonType, ConfidenceInterval>> = {};
+  for (const [type, count] of typeCounts) {
+    typeIntervals[type] = wilsonInterval(count, values.length);
+  }
+
   // 예시 수집
   const examples = collectExamples(values, path, opts);
 
@@ -151,7 +164,7 @@ export function aggregatePath(
   // 예시에서 hint 수집
   const hints = [...new Set(examples.flatMap((e) => e.hints))];
 
-  return {
+  const schema: FieldSchema = {
     path,
     presentRatio,
     presentCount: presentDocs,
@@ -163,7 +176,84 @@ export function aggregatePath(
     optional,
     mixedType,
     hints,
+    presentInterval,
+    typeIntervals,
+    uncertain,
   };
+
+  // 고유 값 수 추정
+  const cardinality = estimateFieldCardinality(values);
+  if (cardinality) {
+    schema.cardinality = cardinality;
+  }
+
+  // 관찰 값 수집 (enum 후보)
+  const enumValues = collectEnumValues(path, values, cardinality, opts);
+  if (enumValues) {
+    schema.enumValues = enumValues;
+  }
+
+  // 문자열 길이/형식 프로필
+  const stringProfile = profileStrings(values);
+  if (stringProfile) {
+    schema.stringProfile = stringProfile;
+  }
+
+  // 날짜 범위/시각 분포 프로필 (마스킹된 예시 대신 집계로 날짜 의미 파악)
+  // 마스킹 대상 필드는 범위를 월 단위로 낮춰 실제 값(생년월일 등)이 드러나지 않게 함
+  const coarsenDates =
+    opts.redact === 'all' || (opts.redact === 'pii' && (hints.length > 0 || isPIIField(path, opts.piiPatterns)));
+  const dateProfile = profileDates(values, new Date(), coarsenDates);
+  if (dateProfile) {
+    schema.dateProfile = dateProfile;
+  }
+
+  // 배열 길이 분포/튜플 형태 프로필
+  const arrayProfile = profileArrays(values);
+  if (arrayProfile) {
+    schema.arrayProfile = arrayProfile;
+  }
+
+  return schema;
+}
+
+/**
+ * 샘플 기반 필드 스키마에 전체 스캔 통계 적용
+ * 존재 비율/타입 분포/optional을 다시 계산하고, 추정이 아니므로 신뢰구간은 제거
+ */
+export function applyExactStats(
+  field: FieldSchema,
+  exact: ExactPathStats,
+  totalDocs: number,
+  optionalThreshold: number = DEFAULT_OPTIONS.optionalThreshold
+): FieldSchema {
+  const typeCounts = new Map(Object.entries(exact.typeCounts) as [BsonType, number][]);
+  const presentRatio = totalDocs > 0 ? exact.presentCount / totalDocs : 0;
+
+  return {
+    ...field,
+    presentRatio,
+    presentCount: exact.presentCount,
+    absentCount: totalDocs - exact.presentCount,
+    typeRatio: calculateTypeRatio(typeCounts, exact.presentCount),
+    typeCounts: exact.typeCounts,
+    optional: presentRatio < optionalThreshold,
+    mixedType: hasMixedTypes(typeCounts),
+    presentInterval: undefined,
+    typeIntervals: undefined,
+    uncertain: false,
+    exact: true,
+  };
+}
+
+/**
+ * 배열 요소 path 값들의 타입 비율 계산
+ * flatten이 배열마다 추가하는 타입 표식 값("[string]" 등)은 제외
+ */
+function calculateElementTypes(values: PathValue[]): Partial<Record<BsonType, number>> | null {
+  const elements = values.filter((pv) => pv.value !== `[${pv.type}]`);
+  if (elements.length === 0) return null;
+  return calculateTypeRatio(getTypeDistribution(elements), elements.length);
 }
 
 /**
@@ -174,11 +264,15 @@ export function aggregateAll(
   options: Partial<AggregateOptions> = {}
 ): FieldSchema[] {
   const schemas: FieldSchema[] = [];
+  const elementValues = new Map<string, PathValue[]>(); // 배열 path → 요소 값
 
   for (const [path, values] of paths) {
-    // 배열 메타데이터 path만 건너뛰기 (예: agreements.[*])
+    // 배열 메타데이터 path는 필드로 만들지 않고 요소 타입 분포만 배열 필드에 기록 (예: agreements.[*])
     // 배열 하위 필드는 포함 (예: agreements.[*]._id)
-    if (path.endsWith('.[*]')) continue;
+    if (path.endsWith('.[*]')) {
+      elementValues.set(path.slice(0, -'.[*]'.length), values);
+      continue;
+    }
     // truncation 마커 건너뛰기
     if (path.endsWith('.[TRUNCATED]')) continue;
 
@@ -186,6 +280,14 @@ export function aggregateAll(
     schemas.push(schema);
   }
 
+  for (const schema of schemas) {
+    const elements = elementValues.get(schema.path);
+    const elementTypes = elements ? calculateElementTypes(elements) : null;
+    if (elementTypes) {
+      schema.elementTypes = elementTypes;
+    }
+  }
+
   // 결정적인 출력을 위해 path로 정렬
   return schemas.sort((a, b) =>
     a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' })
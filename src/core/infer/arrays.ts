@@ -0,0 +1,67 @@
+import { BsonType, detectBsonType } from '../../types/bson';
+import type { ArrayProfile, PathValue } from '../../types/schema';
+import { percentile } from './stats';
+
+// p95 길이가 이 값 이상이면 계속 커지는 배열로 판단 (16MB 문서 제한 위험)
+const UNBOUNDED_P95_LENGTH = 100;
+
+// 튜플 판정: 고정 길이 범위와 최소 배열 수
+const TUPLE_MIN_LENGTH = 2;
+const TUPLE_MAX_LENGTH = 10;
+const TUPLE_MIN_ARRAYS = 5;
+
+/**
+ * 고정 길이이고 위치별 타입이 일정한 배열이면 위치별 타입 반환 (예: [lng, lat] → [double, double])
+ */
+function detectTuple(arrays: unknown[][]): BsonType[] | null {
+  const nonEmpty = arrays.filter((a) => a.length > 0);
+  const length = nonEmpty[0]?.length ?? 0;
+  if (
+    nonEmpty.length < TUPLE_MIN_ARRAYS ||
+    length < TUPLE_MIN_LENGTH ||
+    length > TUPLE_MAX_LENGTH ||
+    nonEmpty.some((a) => a.length !== length)
+  ) {
+    return null;
+  }
+
+  const types: BsonType[] = [];
+  for (let i = 0; i < length; i++) {
+    const positionTypes = new Set(nonEmpty.map((a) => detectBsonType(a[i])));
+    const [type] = positionTypes;
+    if (positionTypes.size !== 1 || type === undefined || type === BsonType.Object || type === BsonType.Array) {
+      return null;
+    }
+    types.push(type);
+  }
+  return types;
+}
+
+/**
+ * 배열 값들의 길이 분포/빈 배열 비율/튜플 형태 프로필 계산
+ * 배열 값이 없으면 null
+ */
+export function profileArrays(values: PathValue[]): ArrayProfile | null {
+  const arrays = values.filter((v) => v.type === BsonType.Array && Array.isArray(v.value)).map((v) => v.value as unknown[]);
+  if (arrays.length === 0) return null;
+
+  const lengths = arrays.map((a) => a.length);
+  const total = lengths.reduce((sum, n) => sum + n, 0);
+  const p95Length = Math.round(percentile(lengths, 95) * 100) / 100;
+
+  const profile: ArrayProfile = {
+    minLength: lengths.reduce((a, b) => Math.min(a, b)),
+    avgLength: Math.round((total / arrays.length) * 100) / 100,
+    maxLength: lengths.reduce((a, b) => Math.max(a, b)),
+    p95Length,
+    emptyRatio: Math.round((lengths.filter((n) => n === 0).length / arrays.length) * 100) / 100,
+    unbounded: p95Length >= UNBOUNDED_P95_LENGTH,
+  };
+
+  const tuple = detectTuple(arrays);
+  if (tuple) {
+    profile.tuple = tuple;
+  }
+
+  return profile;
+}
@@ -0,0 +1,165 @@
+import { BsonType } from '../../types/bson';
+import type { FieldCardinality, FieldSchema, IndexInfo, PathValue } from '../../types/schema';
+import { splitPath, unescapeKey } from '../flatten/escaping';
+import { MAP_WILDCARD } from '../flatten/mapKeys';
+
+// HyperLogLog 레지스터 수 = 2^precision (표준 오차 약 1.04 / √레지스터 수)
+const DEFAULT_PRECISION = 12;
+
+// enum 후보 판정: 고유 값이 적고 값이 충분히 반복되어야 함
+const LOW_CARDINALITY_MAX_DISTINCT = 10;
+const LOW_CARDINALITY_MIN_VALUES = 20;
+
+// 자연 키 후보 판정: 추정 오차를 감안한 고유 비율과 최소 표본
+const KEY_MIN_UNIQUE_RATIO = 0.99;
+const KEY_MIN_VALUES = 10;
+const KEY_TYPES = new Set<BsonType>([
+  BsonType.String,
+  BsonType.Int,
+  BsonType.Long,
+  BsonType.ObjectId,
+  BsonType.BinData,
+]);
+
+/**
+ * HyperLogLog 스케치
+ */
+export interface CardinalitySketch {
+  precision: number;
+  registers: Uint8Array;
+}
+
+/**
+ * 빈 스케치 생성
+ */
+export function createSketch(precision: number = DEFAULT_PRECISION): CardinalitySketch {
+  return { precision, registers: new Uint8Array(1 << precision) };
+}
+
+/**
+ * 문자열 32비트 해시 (FNV-1a + murmur3 finalizer로 비트 분산)
+ */
+function hash32(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * 스케치에 값 추가
+ */
+export function addToSketch(sketch: CardinalitySketch, key: string): void {
+  const h = hash32(key);
+  const index = h >>> (32 - sketch.precision);
+  const rest = (h << sketch.precision) >>> 0;
+  const rank = Math.min(Math.clz32(rest) + 1, 32 - sketch.precision + 1);
+
+  if (rank > (sketch.registers[index] ?? 0)) {
+    sketch.registers[index] = rank;
+  }
+}
+
+/**
+ * 스케치의 고유 값 수 추정
+ * 추정치가 작으면 linear counting으로 보정
+ */
+export function estimateCardinality(sketch: CardinalitySketch): number {
+  const m = sketch.registers.length;
+  let sum = 0;
+  let zeros = 0;
+  for (const register of sketch.registers) {
+    sum += 2 ** -register;
+    if (register === 0) zeros++;
+  }
+
+  const alpha = 0.7213 / (1 + 1.079 / m);
+  const estimate = (alpha * m * m) / sum;
+
+  if (estimate <= 2.5 * m && zeros > 0) {
+    return Math.round(m * Math.log(m / zeros));
+  }
+  return Math.round(estimate);
+}
+
+/**
+ * 고유 값 판별용 키 생성 (객체/배열은 대상이 아니므로 null)
+ */
+function toDistinctKey(pv: PathValue): string | null {
+  if (pv.type === BsonType.Object || pv.type === BsonType.Array) return null;
+  if (pv.value instanceof Date) return `${pv.type}:${pv.value.toISOString()}`;
+  return `${pv.type}:${String(pv.value)}`;
+}
+
+/**
+ * path 값들의 고유 값 수와 고유 비율 추정
+ * 스칼라 값이 없으면 null
+ */
+export function estimateFieldCardinality(values: PathValue[]): FieldCardinality | null {
+  const sketch = createSketch();
+  let count = 0;
+
+  for (const pv of values) {
+    const key = toDistinctKey(pv);
+    if (key === null) continue;
+    addToSketch(sketch, key);
+    count++;
+  }
+  if (count === 0) return null;
+
+  // 추정 오차로 값 수를 넘지 않도록 제한
+  const distinct = Math.min(estimateCardinality(sketch), count);
+  return {
+    distinct,
+    uniqueRatio: Math.round((distinct / count) * 1000) / 1000,
+    lowCardinality: distinct <= LOW_CARDINALITY_MAX_DISTINCT && count >= LOW_CARDINALITY_MIN_VALUES,
+  };
+}
+
+/**
+ * path와 정확히 일치하는 단일 필드 unique 인덱스가 있는지 확인
+ */
+function hasUniqueIndex(path: string, indexes: IndexInfo[]): boolean {
+  const fieldPath = splitPath(path).map(unescapeKey).join('.');
+  return indexes.some((idx) => {
+    const keys = Object.keys(idx.key);
+    return idx.unique && keys.length === 1 && keys[0] === fieldPath;
+  });
+}
+
+/**
+ * 자연 키 후보 표시
+ * 항상 존재하고 값이 고유한 식별자 타입 필드 중 unique 인덱스가 없는 필드에 keyCandidate 설정 후 path 반환
+ */
+export function markKeyCandidates(fields: FieldSchema[], indexes: IndexInfo[]): string[] {
+  const candidates: string[] = [];
+
+  for (const field of fields) {
+    const cardinality = field.cardinality;
+    if (!cardinality || field.path === '_id' || field.path.includes('[*]') || field.path.includes(MAP_WILDCARD)) {
+      continue;
+    }
+
+    const types = Object.keys(field.typeCounts) as BsonType[];
+    const isKey =
+      field.presentRatio === 1 &&
+      field.presentCount >= KEY_MIN_VALUES &&
+      cardinality.uniqueRatio >= KEY_MIN_UNIQUE_RATIO &&
+      types.length > 0 &&
+      types.every((t) => KEY_TYPES.has(t));
+
+    if (isKey && !hasUniqueIndex(field.path, indexes)) {
+      cardinality.keyCandidate = true;
+      candidates.push(field.path);
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,64 @@
+import type { PathValue } from '../../types/schema';
+
+export interface ConvergenceOptions {
+  tolerance: number; // 배치 간 presentRatio 변화 허용치
+}
+
+const DEFAULT_OPTIONS: ConvergenceOptions = {
+  tolerance: 0.02,
+};
+
+/**
+ * 배치 간 스키마 수렴 판정 결과
+ */
+export interface ConvergenceCheck {
+  newPaths: number; // 이전 배치까지 없던 경로 수
+  maxDelta: number; // 가장 크게 변한 presentRatio 차이
+  score: number; // 0~1, 1에 가까울수록 수렴
+  converged: boolean;
+}
+
+/**
+ * 경로별 presentRatio 계산 (경로가 나타난 문서 수 기준)
+ */
+export function measurePresence(paths: Map<string, PathValue[]>, totalDocs: number): Map<string, number> {
+  const presence = new Map<string, number>();
+  if (totalDocs === 0) return presence;
+
+  for (const [path, values] of paths) {
+    presence.set(path, new Set(values.map((v) => v.docIndex)).size / totalDocs);
+  }
+  return presence;
+}
+
+/**
+ * 이전/현재 presentRatio를 비교하여 수렴 여부 판정
+ * 새 경로가 없고 모든 presentRatio 변화가 tolerance 이내이면 수렴
+ */
+export function assessConvergence(
+  previous: Map<string, number>,
+  current: Map<string, number>,
+  options: Partial<ConvergenceOptions> = {}
+): ConvergenceCheck {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  let newPaths = 0;
+  let maxDelta = 0;
+
+  for (const [path, ratio] of current) {
+    const before = previous.get(path);
+    if (before === undefined) {
+      newPaths++;
+    }
+    maxDelta = Math.max(maxDelta, Math.abs(ratio - (before ?? 0)));
+  }
+
+  const newPathRatio = current.size > 0 ? newPaths / current.size : 0;
+  const score = Math.max(0, 1 - Math.max(newPathRatio, maxDelta));
+
+  return {
+    newPaths,
+    maxDelta: Math.round(maxDelta * 1000) / 1000,
+    score: Math.round(score * 100) / 100,
+    converged: newPaths === 0 && maxDelta <= opts.tolerance,
+  };
+}
@@ -0,0 +1,73 @@
+import { BsonType } from '../../types/bson';
+import type { DateProfile, PathValue } from '../../types/schema';
+
+// 날짜 전용(date-only) 판정: 같은 정각 시각인 값의 비율과 최소 값 수
+const DATE_ONLY_MIN_RATIO = 0.95;
+const DATE_ONLY_MIN_VALUES = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * UTC 시(hour)를 해당 시각이 자정이 되는 UTC 오프셋으로 변환
+ * 예: 15시 → +9 (KST 자정), 5시 → -5
+ */
+function toMidnightOffset(hour: number): number {
+  if (hour === 0) return 0;
+  return hour <= 12 ? -hour : 24 - hour;
+}
+
+/**
+ * 날짜 값들의 범위/미래 날짜/epoch sentinel/시각 분포 프로필 계산
+ * coarsenRange면 실제 값이 드러나지 않도록 범위를 월 단위(YYYY-MM)로 기록
+ * 유효한 Date 값이 없으면 null
+ */
+export function profileDates(
+  values: PathValue[],
+  now: Date = new Date(),
+  coarsenRange: boolean = false
+): DateProfile | null {
+  const times = values
+    .filter((v) => v.type === BsonType.Date && v.value instanceof Date)
+    .map((v) => (v.value as Date).getTime())
+    .filter((t) => !Number.isNaN(t));
+  if (times.length === 0) return null;
+
+  let earliest = Infinity;
+  let latest = -Infinity;
+  let futureCount = 0;
+  let epochCount = 0;
+  const hourCounts = new Array<number>(24).fill(0);
+  const onTheHour = new Array<number>(24).fill(0); // 분/초/밀리초가 0인 값의 UTC 시별 수
+
+  for (const time of times) {
+    earliest = Math.min(earliest, time);
+    latest = Math.max(latest, time);
+    if (time > now.getTime()) futureCount++;
+    if (time >= 0 && time < DAY_MS) epochCount++;
+
+    const hour = new Date(time).getUTCHours();
+    hourCounts[hour] = (hourCounts[hour] ?? 0) + 1;
+    if (time % HOUR_MS === 0) {
+      onTheHour[hour] = (onTheHour[hour] ?? 0) + 1;
+    }
+  }
+
+  const formatBound = (time: number) => new Date(time).toISOString().slice(0, coarsenRange ? 7 : undefined);
+  const profile: DateProfile = {
+    earliest: formatBound(earliest),
+    latest: formatBound(latest),
+    futureCount,
+    epochCount,
+    midnightRatio: Math.round(((onTheHour[0] ?? 0) / times.length) * 100) / 100,
+    hourCounts,
+  };
+
+  // 대부분의 값이 같은 정각이면 날짜만 의미가 있는 필드 (0이 아닌 시각이면 로컬 자정으로 저장된 것)
+  const peak = Math.max(...onTheHour);
+  if (times.length >= DATE_ONLY_MIN_VALUES && peak / times.length >= DATE_ONLY_MIN_RATIO) {
+    profile.dateOnlyOffset = toMidnightOffset(onTheHour.indexOf(peak));
+  }
+
+  return profile;
+}
@@ -0,0 +1,65 @@
+import { BsonType } from '../../types/bson';
+import type { EnumValue, FieldCardinality, PathValue } from '../../types/schema';
+import { hasPII } from '../redact/detector';
+
+// enum 값으로 기록할 수 있는 타입 (숫자는 카운터/좌표와 구분할 수 없어 제외)
+const ENUM_TYPES = new Set<BsonType>([BsonType.String]);
+
+export interface EnumOptions {
+  redact: 'all' | 'pii' | 'off';
+  piiPatterns?: string[];
+  minDistinct: number; // 최소 고유값 수 (1개면 상수로 판단)
+  minRepetition: number; // 값당 최소 평균 출현 수 (count / distinct)
+}
+
+const DEFAULT_OPTIONS: EnumOptions = {
+  redact: 'pii',
+  minDistinct: 2,
+  minRepetition: 5,
+};
+
+/**
+ * 카디널리티가 낮은 문자열 필드의 관찰 값과 빈도 수집
+ * null/undefined 외 타입이 string 하나이고, 고유값이 2개 이상이며 각 값이 충분히 반복될 때만 대상
+ * 마스킹 대상 값(redact all, 또는 pii에서 PII로 판단된 값)이 있으면 기록하지 않음
+ */
+export function collectEnumValues(
+  path: string,
+  values: PathValue[],
+  cardinality: FieldCardinality | null,
+  options: Partial<EnumOptions> = {}
+): EnumValue[] | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (!cardinality?.lowCardinality || opts.redact === 'all') return null;
+
+  const scalars = values.filter((v) => v.type !== BsonType.Null && v.type !== BsonType.Undefined);
+  const types = new Set(scalars.map((v) => v.type));
+  const [type] = types;
+  if (types.size !== 1 || type === undefined || !ENUM_TYPES.has(type)) return null;
+
+  const counts = new Map<string | number, number>();
+  for (const pv of scalars) {
+    const value = pv.value as string | number;
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  if (counts.size < opts.minDistinct || scalars.length / counts.size < opts.minRepetition) {
+    return null;
+  }
+
+  if (opts.redact === 'pii' && [...counts.keys()].some((value) => hasPII(value, path, opts.piiPatterns))) {
+    return null;
+  }
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+}
+
+/**
+ * 관찰 값을 비율과 함께 문자열로 포맷 (예: active(60%))
+ */
+export function formatEnumValues(enumValues: EnumValue[]): string[] {
+  const total = enumValues.reduce((sum, e) => sum + e.count, 0);
+  return enumValues.map((e) => `${e.value}(${Math.round((e.count / Math.max(total, 1)) * 100)}%)`);
+}
@@ -1,3 +1,9 @@
 export * from './analyzer';
 export * from './aggregator';
 export * from './stats';
+export * from './convergence';
+export * from './cardinality';
+export * from './enums';
+export * from './strings';
+export * from './dates';
+export * from './arrays';
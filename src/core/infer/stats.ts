@@ -1,4 +1,10 @@
-import type { FieldStats } from '../../types/schema';
+import type { ConfidenceInterval, FieldStats } from '../../types/schema';
+
+// 95% 신뢰수준 z 값
+const WILSON_Z_95 = 1.96;
+
+// 히스토그램 구간 수
+const HISTOGRAM_BINS = 10;
 
 /**
  * 숫자 값의 통계 계산
@@ -20,7 +26,38 @@ export function calculateStats(values: number[]): FieldStats {
 
   const avg = sum / values.length;
 
-  return { min, max, avg };
+  return {
+    min,
+    max,
+    avg,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+    stdDev: stdDev(values, avg),
+    zeroCount: values.filter((v) => v === 0).length,
+    negativeCount: values.filter((v) => v < 0).length,
+    histogram: histogram(values),
+  };
+}
+
+/**
+ * min~max를 같은 폭의 구간으로 나눈 히스토그램 (최댓값은 마지막 구간에 포함)
+ * 모든 값이 같으면 단일 구간
+ */
+export function histogram(values: number[], bins = HISTOGRAM_BINS): number[] {
+  if (values.length === 0) return [];
+
+  const min = values.reduce((a, b) => Math.min(a, b));
+  const max = values.reduce((a, b) => Math.max(a, b));
+  if (min === max) return [values.length];
+
+  const counts = new Array<number>(bins).fill(0);
+  const width = (max - min) / bins;
+  for (const v of values) {
+    const index = Math.min(Math.floor((v - min) / width), bins - 1);
+    counts[index] = (counts[index] ?? 0) + 1;
+  }
+  return counts;
 }
 
 /**
@@ -53,3 +90,24 @@ export function stdDev(values: number[], avg: number): number {
 
   return Math.sqrt(avgSquaredDiff);
 }
+
+/**
+ * Wilson score 신뢰구간 계산
+ * 표본이 작거나 비율이 0/1에 가까울 때도 [0, 1] 범위를 벗어나지 않음
+ */
+export function wilsonInterval(successes: number, trials: number, z = WILSON_Z_95): ConfidenceInterval {
+  if (trials === 0) {
+    return { lower: 0, upper: 1 };
+  }
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    lower: Math.round(Math.max(0, center - margin) * 1000) / 1000,
+    upper: Math.round(Math.min(1, center + margin) * 1000) / 1000,
+  };
+}
@@ -0,0 +1,112 @@
+import { BsonType } from '../../types/bson';
+import type { PathValue, StringFormat, StringProfile } from '../../types/schema';
+
+// 이 비율 이상의 값이 해당 형식이면 형식으로 기록
+const FORMAT_MIN_RATIO = 0.5;
+
+// 형식 판별 규칙 (앞선 규칙이 우선)
+const FORMAT_RULES: [StringFormat, (value: string) => boolean][] = [
+  ['json', isJsonString],
+  ['uuid', (v) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v)],
+  ['object-id', (v) => /^[0-9a-f]{24}$/i.test(v)],
+  ['iso-date', (v) => /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(v)],
+  ['numeric', (v) => /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(v)],
+  ['email', (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v)],
+  ['url', (v) => /^[a-z][a-z0-9+.-]*:\/\/[^\s]+$/i.test(v)],
+  ['base64', isBase64String],
+];
+
+/**
+ * 객체/배열 형태의 JSON 문자열인지 확인
+ */
+function isJsonString(value: string): boolean {
+  const trimmed = value.trim();
+  if (!/^[[{]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * base64 문자열인지 확인
+ * 일반 단어와 구분하기 위해 16자 이상이면서 숫자나 패딩/기호가 섞인 경우만 인정
+ */
+function isBase64String(value: string): boolean {
+  return (
+    value.length >= 16 &&
+    value.length % 4 === 0 &&
+    /^[A-Za-z0-9+/]+={0,2}$/.test(value) &&
+    /[0-9+/=]/.test(value) &&
+    /[A-Za-z]/.test(value)
+  );
+}
+
+/**
+ * 문자열 값의 형식 판별 (해당 없으면 null)
+ */
+export function detectStringFormat(value: string): StringFormat | null {
+  for (const [format, matches] of FORMAT_RULES) {
+    if (matches(value)) return format;
+  }
+  return null;
+}
+
+/**
+ * 문자열 값들의 길이/빈 값/문자셋/형식 프로필 계산
+ * 문자열 값이 없으면 null
+ */
+export function profileStrings(values: PathValue[]): StringProfile | null {
+  const strings = values.filter((v) => v.type === BsonType.String).map((v) => v.value as string);
+  if (strings.length === 0) return null;
+
+  let minLength = Infinity;
+  let maxLength = 0;
+  let totalLength = 0;
+  let empty = 0;
+  let whitespace = 0;
+  let nonAscii = 0;
+  const formatCounts = new Map<StringFormat, number>();
+
+  for (const value of strings) {
+    minLength = Math.min(minLength, value.length);
+    maxLength = Math.max(maxLength, value.length);
+    totalLength += value.length;
+
+    if (value.length === 0) {
+      empty++;
+      continue;
+    }
+    if (value.trim().length === 0) {
+      whitespace++;
+      continue;
+    }
+    if (/[\u0080-\uffff]/.test(value)) nonAscii++;
+
+    const format = detectStringFormat(value);
+    if (format) {
+      formatCounts.set(format, (formatCounts.get(format) ?? 0) + 1);
+    }
+  }
+
+  const round = (ratio: number) => Math.round(ratio * 100) / 100;
+  const formats: Partial<Record<StringFormat, number>> = {};
+  for (const [format, count] of formatCounts) {
+    const ratio = count / strings.length;
+    if (ratio >= FORMAT_MIN_RATIO) {
+      formats[format] = round(ratio);
+    }
+  }
+
+  return {
+    minLength,
+    avgLength: round(totalLength / strings.length),
+    maxLength,
+    emptyRatio: round(empty / strings.length),
+    whitespaceRatio: round(whitespace / strings.length),
+    nonAsciiRatio: round(nonAscii / strings.length),
+    formats,
+  };
+}
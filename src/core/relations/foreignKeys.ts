@@ -0,0 +1,184 @@
+import type { CollectionSchema } from '../../types/schema';
+import type { Relation } from '../../types/relation';
+import { splitPath, unescapeKey } from '../flatten/escaping';
+
+// 외래키 필드명 패턴 (*Id, *_id, *Uuid)
+const FOREIGN_KEY_PATTERN = /(?:Id|_id|Uuid)$/i;
+// 참조 대상 이름 추출용 접미사 (대소문자 구분하여 paid, valid 등 오탐 방지)
+const REFERENCE_SUFFIX = /(?:_id|_uuid|Id|ID|Uuid)$/;
+
+/**
+ * 외래키 패턴 필드 수집
+ * *Id, *_id, *Uuid 패턴 필드를 외래키로 인식
+ */
+export function collectForeignKeyFields(schemas: CollectionSchema[]): Map<string, string[]> {
+  const foreignKeyMap = new Map<string, string[]>();
+
+  for (const schema of schemas) {
+    for (const field of schema.fields) {
+      const fieldName = field.path.split('.').pop() || field.path;
+      // *Id, *_id, *Uuid 패턴 체크
+      if (FOREIGN_KEY_PATTERN.test(fieldName)) {
+        const key = `${schema.name}.${field.path}`;
+        foreignKeyMap.set(key, []);
+      }
+    }
+  }
+
+  return foreignKeyMap;
+}
+
+/**
+ * 필드의 외래키 컨텍스트 추론
+ * 필드명이 다른 컬렉션의 외래키 필드와 매칭되는지 확인
+ */
+export function inferForeignKeyContext(fieldPath: string, allForeignKeys: Map<string, string[]>): string[] {
+  const context: string[] = [];
+  const fieldName = fieldPath.split('.').pop() || fieldPath;
+
+  // 필드명과 매칭되는 외래키 필드 찾기
+  for (const [foreignKey] of allForeignKeys) {
+    const parts = foreignKey.split('.');
+    const fkPath = parts.slice(1).join('.');
+
+    if (!fkPath) continue;
+
+    const fkFieldName = fkPath.split('.').pop();
+    if (!fkFieldName) continue;
+
+    // 필드명이 유사한 경우 (예: userId와 users._id)
+    if (
+      fieldName.toLowerCase().includes(fkFieldName.toLowerCase()) ||
+      fkFieldName.toLowerCase().includes(fieldName.toLowerCase())
+    ) {
+      context.push(foreignKey);
+    }
+  }
+
+  return context;
+}
+
+/**
+ * 비교용 이름 정규화 (소문자, 영숫자만)
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * 컬렉션명의 단수형 추정
+ * 예: categories → category, users → user
+ */
+function singularize(name: string): string {
+  if (name.endsWith('ies')) return `${name.slice(0, -3)}y`;
+  if (/(?:ss|sh|ch|x)es$/.test(name)) return name.slice(0, -2);
+  if (name.endsWith('s')) return name.slice(0, -1);
+  return name;
+}
+
+/**
+ * 참조 필드에서 대상 이름 추출
+ * userId → user, author._id → author
+ */
+function extractReferenceName(path: string): string | null {
+  const segments = splitPath(path)
+    .filter((s) => s !== '[*]')
+    .map(unescapeKey);
+  const fieldName = segments[segments.length - 1];
+  if (!fieldName || !FOREIGN_KEY_PATTERN.test(fieldName)) return null;
+
+  if (fieldName === '_id') {
+    // 최상위 _id는 자기 자신의 기본키
+    return segments.length > 1 ? (segments[segments.length - 2] ?? null) : null;
+  }
+
+  const base = fieldName.replace(REFERENCE_SUFFIX, '');
+  return base && base !== fieldName ? base : null;
+}
+
+/**
+ * 컬렉션명(및 단수형) → 컬렉션명 매핑 생성
+ */
+function buildTargetIndex(schemas: CollectionSchema[]): Map<string, string> {
+  const targets = new Map<string, string>();
+  for (const schema of schemas) {
+    targets.set(normalizeName(schema.name), schema.name);
+    const singular = normalizeName(singularize(schema.name));
+    if (!targets.has(singular)) {
+      targets.set(singular, schema.name);
+    }
+  }
+  return targets;
+}
+
+/**
+ * 필드명 패턴으로 참조 대상 컬렉션 추론
+ * 참조 필드에서 추출한 이름이 컬렉션명(또는 단수형)과 일치하면 대상으로 인정
+ */
+export function resolveReferenceTarget(path: string, schemas: CollectionSchema[]): string | null {
+  const name = extractReferenceName(path);
+  return name ? (buildTargetIndex(schemas).get(normalizeName(name)) ?? null) : null;
+}
+
+/**
+ * 두 이름의 bigram 유사도 (Dice 계수, 0~1)
+ */
+function nameSimilarity(a: string, b: string): number {
+  const bigrams = (s: string) => Array.from({ length: Math.max(s.length - 1, 0) }, (_, i) => s.slice(i, i + 2));
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const total = left.length + right.length;
+  if (left.length === 0 || right.length === 0) return a === b ? 1 : 0;
+
+  let shared = 0;
+  for (const gram of left) {
+    const index = right.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      right.splice(index, 1);
+    }
+  }
+  return (2 * shared) / total;
+}
+
+/**
+ * 필드명과 컬렉션명(또는 단수형)의 유사도 순으로 후보 컬렉션 정렬 (동점은 원래 순서 유지)
+ * 예: buyerId → buyer_profiles, buyers_archive, ... 순
+ */
+export function rankReferenceTargets(path: string, candidates: string[]): string[] {
+  const fieldName = splitPath(path)
+    .filter((s) => s !== '[*]')
+    .map(unescapeKey)
+    .pop();
+  const name = normalizeName(extractReferenceName(path) ?? fieldName ?? '');
+  const score = (candidate: string) =>
+    Math.max(
+      nameSimilarity(name, normalizeName(candidate)),
+      nameSimilarity(name, normalizeName(singularize(candidate)))
+    );
+
+  return candidates
+    .map((candidate, index) => ({ candidate, index, score: score(candidate) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((c) => c.candidate);
+}
+
+/**
+ * 필드명 패턴으로 컬렉션 간 참조 관계 추론
+ */
+export function inferRelations(schemas: CollectionSchema[]): Relation[] {
+  const targets = buildTargetIndex(schemas);
+  const relations: Relation[] = [];
+
+  for (const schema of schemas) {
+    for (const field of schema.fields) {
+      const name = extractReferenceName(field.path);
+      const target = name ? targets.get(normalizeName(name)) : undefined;
+      if (target) {
+        relations.push({ from: schema.name, path: field.path, to: target });
+      }
+    }
+  }
+
+  return relations;
+}
@@ -0,0 +1,2 @@
+export * from './foreignKeys';
+export * from './verifier';
@@ -0,0 +1,241 @@
+import { BsonType, detectBsonType } from '../../types/bson';
+import type { CollectionSchema } from '../../types/schema';
+import type {
+  DuplicateLookup,
+  IdLookup,
+  ReferenceSample,
+  RelationCardinality,
+  VerifiedRelation,
+} from '../../types/relation';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { escapeKey, splitPath, unescapeKey } from '../flatten/escaping';
+import { rankReferenceTargets, resolveReferenceTarget } from './foreignKeys';
+
+// 참조 검증 상수
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const UUID_SUBTYPES = [3, 4];
+const CONFIDENT_SAMPLE_SIZE = 10; // 이 수 이상의 고유 값이면 표본 크기 감점 없음
+const NAME_MISMATCH_FACTOR = 0.9; // 필드명으로 대상이 추론되지 않는 경우 감점
+
+export interface ReferenceSampleOptions {
+  maxValues: number; // 필드당 검증에 사용할 최대 고유 값 수
+  maxDepth: number;
+}
+
+export interface RelationVerifyOptions {
+  minMatchRate: number; // 관계로 인정할 최소 일치율
+  concurrency: number;
+  maxFanOut: number; // 필드명으로 대상이 정해지지 않을 때 조회할 최대 후보 컬렉션 수
+}
+
+const DEFAULT_SAMPLE_OPTIONS: ReferenceSampleOptions = {
+  maxValues: 100,
+  maxDepth: 5,
+};
+
+const DEFAULT_VERIFY_OPTIONS: RelationVerifyOptions = {
+  minMatchRate: 0.5,
+  concurrency: 4,
+  maxFanOut: 5,
+};
+
+/**
+ * 참조 값이 될 수 있는 타입인지 판별 (ObjectId, UUID)
+ */
+function getReferenceType(value: unknown): BsonType | null {
+  const type = detectBsonType(value);
+
+  if (type === BsonType.ObjectId) return type;
+  if (type === BsonType.String && UUID_PATTERN.test(value as string)) return type;
+  if (type === BsonType.BinData) {
+    const subType = (value as { sub_type?: number }).sub_type;
+    return subType !== undefined && UUID_SUBTYPES.includes(subType) ? type : null;
+  }
+
+  return null;
+}
+
+interface SampleAccumulator {
+  valueType: BsonType;
+  values: Map<string, unknown>;
+  occurrences: number;
+  viaArray: boolean;
+}
+
+/**
+ * 샘플 문서에서 참조 후보 필드의 값 수집
+ * ObjectId/UUID 값을 가진 필드를 대상으로 하며 최상위 _id는 제외
+ */
+export function collectReferenceSamples(
+  documents: Record<string, unknown>[],
+  options: Partial<ReferenceSampleOptions> = {}
+): ReferenceSample[] {
+  const opts = { ...DEFAULT_SAMPLE_OPTIONS, ...options };
+  const accumulators = new Map<string, SampleAccumulator>();
+
+  function record(path: string, value: unknown, viaArray: boolean): void {
+    const type = getReferenceType(value);
+    if (!type || path === '_id') return;
+
+    let acc = accumulators.get(path);
+    if (!acc) {
+      acc = { valueType: type, values: new Map(), occurrences: 0, viaArray };
+      accumulators.set(path, acc);
+    }
+    if (acc.valueType !== type) return;
+
+    acc.occurrences++;
+    acc.viaArray ||= viaArray;
+    acc.values.set(JSON.stringify(value), value);
+  }
+
+  function traverse(value: unknown, path: string, depth: number, viaArray: boolean): void {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (getReferenceType(item)) {
+          record(path, item, true);
+        } else if (depth < opts.maxDepth) {
+          traverse(item, `${path}.[*]`, depth + 1, true);
+        }
+      }
+      return;
+    }
+
+    if (value !== null && typeof value === 'object' && detectBsonType(value) === BsonType.Object) {
+      if (depth >= opts.maxDepth) return;
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const childPath = path ? `${path}.${escapeKey(key)}` : escapeKey(key);
+        traverse(child, childPath, depth + 1, viaArray);
+      }
+      return;
+    }
+
+    record(path, value, viaArray);
+  }
+
+  for (const doc of documents) {
+    traverse(doc, '', 0, false);
+  }
+
+  return [...accumulators.entries()].map(([path, acc]) => ({
+    path,
+    valueType: acc.valueType,
+    values: [...acc.values.values()].slice(0, opts.maxValues),
+    distinctCount: acc.values.size,
+    occurrences: acc.occurrences,
+    viaArray: acc.viaArray,
+  }));
+}
+
+/**
+ * path와 정확히 일치하는 단일 필드 unique 인덱스가 있는지 확인
+ */
+function hasUniqueIndex(schema: CollectionSchema | undefined, path: string): boolean {
+  const fieldPath = splitPath(path).map(unescapeKey).join('.');
+  return (schema?.indexes ?? []).some((idx) => {
+    const keys = Object.keys(idx.key);
+    return idx.unique && keys.length === 1 && keys[0] === fieldPath;
+  });
+}
+
+/**
+ * 카디널리티 결정
+ * 샘플에서 값이 모두 달라도 작은 표본에서는 흔하므로 1:1은 unique 인덱스나 서버 중복 조회로만 인정
+ */
+async function resolveCardinality(
+  sample: ReferenceSample,
+  source: CollectionSchema | undefined,
+  duplicateLookup: DuplicateLookup | undefined
+): Promise<RelationCardinality> {
+  if (sample.viaArray) return 'N:M';
+  if (sample.distinctCount < sample.occurrences) return '1:N';
+  if (hasUniqueIndex(source, sample.path)) return '1:1';
+  if (!source || !duplicateLookup) return '1:N';
+
+  const fieldPath = splitPath(sample.path).map(unescapeKey).join('.');
+  return (await duplicateLookup(source.name, fieldPath, sample.values)) ? '1:N' : '1:1';
+}
+
+/**
+ * 신뢰도 계산
+ * 일치율에 표본 크기와 필드명 추론 일치 여부를 반영
+ */
+function calculateConfidence(matchRate: number, sampledValues: number, nameMatched: boolean): number {
+  const sizeFactor = Math.min(1, sampledValues / CONFIDENT_SAMPLE_SIZE);
+  const nameFactor = nameMatched ? 1 : NAME_MISMATCH_FACTOR;
+  return Math.round(matchRate * sizeFactor * nameFactor * 100) / 100;
+}
+
+/**
+ * 참조 후보 값을 다른 컬렉션의 _id와 대조하여 관계 검증
+ * _id 타입이 일치하는 컬렉션만 조회하며, 필드명으로 추론한 대상을 먼저 확인하고
+ * 일치하지 않을 때만 나머지 후보를 필드명 유사도 순으로 maxFanOut개까지 조회
+ * 일치율이 minMatchRate 이상인 관계만 반환
+ */
+export async function verifyRelations(
+  samples: Map<string, ReferenceSample[]>,
+  schemas: CollectionSchema[],
+  lookup: IdLookup,
+  options: Partial<RelationVerifyOptions> = {},
+  duplicateLookup?: DuplicateLookup
+): Promise<VerifiedRelation[]> {
+  const opts = { ...DEFAULT_VERIFY_OPTIONS, ...options };
+  const schemasByName = new Map(schemas.map((s) => [s.name, s]));
+  const tasks: { from: string; sample: ReferenceSample }[] = [];
+  for (const [from, collectionSamples] of samples) {
+    for (const sample of collectionSamples) {
+      if (sample.values.length > 0) {
+        tasks.push({ from, sample });
+      }
+    }
+  }
+
+  async function check(
+    from: string,
+    sample: ReferenceSample,
+    to: string,
+    nameMatched: boolean
+  ): Promise<VerifiedRelation | null> {
+    const matched = await lookup(to, sample.values);
+    const matchRate = matched / sample.values.length;
+    if (matchRate < opts.minMatchRate) return null;
+
+    return {
+      from,
+      path: sample.path,
+      to,
+      cardinality: await resolveCardinality(sample, schemasByName.get(from), duplicateLookup),
+      sampledValues: sample.values.length,
+      matchRate: Math.round(matchRate * 100) / 100,
+      confidence: calculateConfidence(matchRate, sample.values.length, nameMatched),
+    };
+  }
+
+  const results = await runWithConcurrency(
+    tasks,
+    async ({ from, sample }): Promise<VerifiedRelation[]> => {
+      const candidates = schemas
+        .filter((target) => target.fields.find((f) => f.path === '_id')?.typeRatio[sample.valueType] !== undefined)
+        .map((target) => target.name);
+
+      const named = resolveReferenceTarget(sample.path, schemas);
+      if (named && candidates.includes(named)) {
+        const relation = await check(from, sample, named, true);
+        if (relation) return [relation];
+      }
+
+      const relations: VerifiedRelation[] = [];
+      const ranked = rankReferenceTargets(sample.path, candidates.filter((name) => name !== named));
+      for (const to of ranked.slice(0, opts.maxFanOut)) {
+        const relation = await check(from, sample, to, false);
+        if (relation) relations.push(relation);
+      }
+      return relations;
+    },
+    opts.concurrency
+  );
+
+  return results
+    .flat()
+    .sort((a, b) => a.from.localeCompare(b.from) || a.path.localeCompare(b.path) || a.to.localeCompare(b.to));
+}
@@ -0,0 +1,156 @@
+import { BsonType, detectBsonType } from '../../types/bson';
+import type {
+  CollectionTimeline,
+  FieldSchema,
+  FieldTimeline,
+  FieldTrend,
+  PathValue,
+  TimeBucket,
+} from '../../types/schema';
+import { wilsonInterval } from '../infer/stats';
+
+export interface TimelineOptions {
+  timeField?: string; // 지정하지 않으면 ObjectId _id의 생성 시각 사용
+  bucketCount: number;
+  minDocsPerBucket: number;
+  trendThreshold: number; // 첫/마지막 구간 presentRatio 차이가 이 값 이상이면 증가/감소로 판단
+}
+
+const DEFAULT_OPTIONS: TimelineOptions = {
+  bucketCount: 4,
+  minDocsPerBucket: 5,
+  trendThreshold: 0.2,
+};
+
+/**
+ * 시간 추이 분석 결과
+ */
+export interface TimelineResult {
+  timeline: CollectionTimeline;
+  fields: Map<string, FieldTimeline>; // path → 필드 시간 추이
+}
+
+interface TimedDocument {
+  docIndex: number;
+  time: Date;
+}
+
+/**
+ * 문서의 생성 시각 추출
+ * timeField가 있으면 해당 Date 값, 없으면 ObjectId _id에 포함된 시각 사용
+ */
+export function extractDocumentTime(doc: Record<string, unknown>, timeField?: string): Date | null {
+  if (timeField) {
+    let value: unknown = doc;
+    for (const segment of timeField.split('.')) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    return detectBsonType(value) === BsonType.Date ? (value as Date) : null;
+  }
+
+  const id = doc._id;
+  if (detectBsonType(id) !== BsonType.ObjectId) return null;
+  return (id as { getTimestamp: () => Date }).getTimestamp();
+}
+
+/**
+ * 시각순 문서 인덱스를 문서 수가 균등한 구간으로 분할
+ */
+function splitBuckets(sorted: TimedDocument[], bucketCount: number): TimedDocument[][] {
+  const buckets: TimedDocument[][] = [];
+  for (let i = 0; i < bucketCount; i++) {
+    const start = Math.floor((i * sorted.length) / bucketCount);
+    const end = Math.floor(((i + 1) * sorted.length) / bucketCount);
+    buckets.push(sorted.slice(start, end));
+  }
+  return buckets;
+}
+
+/**
+ * 구간별 출현 수로 필드 추이 판단
+ * new/deprecated는 첫/마지막 구간의 신뢰구간이 겹치지 않을 때만 인정 (작은 구간의 우연한 0 배제)
+ */
+function classifyTrend(counts: number[], sizes: number[], threshold: number): FieldTrend {
+  const lastIndex = counts.length - 1;
+  const firstCount = counts[0] ?? 0;
+  const lastCount = counts[lastIndex] ?? 0;
+  const first = firstCount / (sizes[0] || 1);
+  const last = lastCount / (sizes[lastIndex] || 1);
+
+  const firstInterval = wilsonInterval(firstCount, sizes[0] ?? 0);
+  const lastInterval = wilsonInterval(lastCount, sizes[lastIndex] ?? 0);
+  const separated = firstInterval.upper < lastInterval.lower || lastInterval.upper < firstInterval.lower;
+
+  if (first === 0 && last > 0 && separated) return 'new';
+  if (first > 0 && last === 0 && separated) return 'deprecated';
+  if (last - first >= threshold) return 'growing';
+  if (first - last >= threshold) return 'declining';
+  return 'stable';
+}
+
+/**
+ * 문서 생성 시각 구간별로 필드 출현 추이 분석
+ * 시각을 알 수 있는 문서가 구간을 나누기에 부족하면 null
+ */
+export function analyzeTimeline(
+  documents: Record<string, unknown>[],
+  paths: Map<string, PathValue[]>,
+  fields: FieldSchema[],
+  options: Partial<TimelineOptions> = {}
+): TimelineResult | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  const timed = documents
+    .map((doc, docIndex) => ({ docIndex, time: extractDocumentTime(doc, opts.timeField) }))
+    .filter((d): d is TimedDocument => d.time !== null)
+    .sort((a, b) => a.time.getTime() - b.time.getTime() || a.docIndex - b.docIndex);
+
+  const bucketCount = Math.min(opts.bucketCount, Math.floor(timed.length / opts.minDocsPerBucket));
+  if (bucketCount < 2) {
+    return null;
+  }
+
+  const buckets = splitBuckets(timed, bucketCount);
+  const bucketOf = new Map<number, number>();
+  buckets.forEach((bucket, index) => bucket.forEach((d) => bucketOf.set(d.docIndex, index)));
+  const timeOf = new Map(timed.map((d) => [d.docIndex, d.time]));
+
+  const timeBuckets: TimeBucket[] = buckets.map((bucket) => ({
+    start: (bucket[0] as TimedDocument).time.toISOString(),
+    end: (bucket[bucket.length - 1] as TimedDocument).time.toISOString(),
+    count: bucket.length,
+  }));
+
+  const result = new Map<string, FieldTimeline>();
+  for (const field of fields) {
+    const docIndexes = new Set((paths.get(field.path) ?? []).map((v) => v.docIndex));
+    const presentCounts = new Array<number>(bucketCount).fill(0);
+    let firstSeen: Date | null = null;
+    let lastSeen: Date | null = null;
+
+    for (const docIndex of docIndexes) {
+      const bucket = bucketOf.get(docIndex);
+      const time = timeOf.get(docIndex);
+      if (bucket === undefined || time === undefined) continue;
+
+      presentCounts[bucket] = (presentCounts[bucket] ?? 0) + 1;
+      if (!firstSeen || time < firstSeen) firstSeen = time;
+      if (!lastSeen || time > lastSeen) lastSeen = time;
+    }
+
+    if (!firstSeen || !lastSeen) continue;
+
+    const ratios = presentCounts.map((count, index) => count / (buckets[index]?.length ?? 1));
+    result.set(field.path, {
+      firstSeen: firstSeen.toISOString(),
+      lastSeen: lastSeen.toISOString(),
+      presentRatios: ratios.map((ratio) => Math.round(ratio * 100) / 100),
+      trend: classifyTrend(presentCounts, buckets.map((bucket) => bucket.length), opts.trendThreshold),
+    });
+  }
+
+  return {
+    timeline: { field: opts.timeField ?? '_id', buckets: timeBuckets },
+    fields: result,
+  };
+}
@@ -0,0 +1,132 @@
+import type { Variant } from '../../types/schema';
+import { extractShapePaths, generateSignature, SIGNATURE_PREFIX_LENGTH } from './signature';
+
+// 판별자 탐지 상수
+const PREFERRED_NAMES = ['type', 'kind', '__t', '_type'];
+
+export interface DiscriminatorOptions {
+  maxValues: number; // 판별자로 인정할 최대 고유값 수
+}
+
+const DEFAULT_OPTIONS: DiscriminatorOptions = {
+  maxValues: 20,
+};
+
+/**
+ * 판별자 탐지 결과
+ */
+export interface DiscriminatorResult {
+  field: string;
+  variants: Variant[]; // discriminatorValues가 채워진 변형 목록
+}
+
+interface Candidate {
+  field: string;
+  values: Map<string, Set<string>>; // signature → 관찰된 값
+  distinct: Set<string>;
+}
+
+/**
+ * 문서들을 변형 signature별로 그룹화
+ * 상위 N개 변형에 속하지 않는 문서는 제외
+ */
+function groupBySignature(
+  documents: Record<string, unknown>[],
+  variants: Variant[]
+): Map<string, Record<string, unknown>[]> {
+  const groups = new Map<string, Record<string, unknown>[]>(variants.map((v) => [v.signature, []]));
+
+  for (const doc of documents) {
+    const signature = generateSignature(extractShapePaths(doc)).substring(0, SIGNATURE_PREFIX_LENGTH);
+    groups.get(signature)?.push(doc);
+  }
+
+  return groups;
+}
+
+/**
+ * 모든 변형의 모든 문서에 문자열로 존재하는 최상위 필드를 후보로 수집
+ */
+function collectCandidates(groups: Map<string, Record<string, unknown>[]>): Candidate[] {
+  let keys: Set<string> | null = null;
+
+  for (const docs of groups.values()) {
+    for (const doc of docs) {
+      const stringKeys = Object.keys(doc).filter((key) => typeof doc[key] === 'string');
+      keys = keys ? new Set(stringKeys.filter((key) => keys?.has(key))) : new Set(stringKeys);
+    }
+  }
+
+  return [...(keys ?? [])].map((field) => {
+    const values = new Map<string, Set<string>>();
+    const distinct = new Set<string>();
+
+    for (const [signature, docs] of groups) {
+      const variantValues = new Set(docs.map((doc) => doc[field] as string));
+      values.set(signature, variantValues);
+      variantValues.forEach((v) => distinct.add(v));
+    }
+
+    return { field, values, distinct };
+  });
+}
+
+/**
+ * 각 변형이 정확히 하나의 값에 속하는지 확인
+ * 한 값은 여러 변형에 걸칠 수 있음 (예: 같은 kind 안의 optional 필드)
+ */
+function hasSingleValuePerVariant(candidate: Candidate): boolean {
+  return candidate.distinct.size >= 2 && [...candidate.values.values()].every((values) => values.size === 1);
+}
+
+/**
+ * 후보 우선순위 비교 (선호 이름 → 고유값 수 → 이름순)
+ */
+function compareCandidates(a: Candidate, b: Candidate): number {
+  const rank = (field: string) => {
+    const index = PREFERRED_NAMES.indexOf(field);
+    return index === -1 ? PREFERRED_NAMES.length : index;
+  };
+
+  return rank(a.field) - rank(b.field) || a.distinct.size - b.distinct.size || a.field.localeCompare(b.field);
+}
+
+/**
+ * 변형을 구분하는 판별자 필드 탐지
+ * 모든 변형에 문자열로 존재하고, 고유값이 적으며, 각 변형이 하나의 값에만 속하는 최상위 필드를 선택
+ */
+export function detectDiscriminator(
+  documents: Record<string, unknown>[],
+  variants: Variant[],
+  options: Partial<DiscriminatorOptions> = {}
+): DiscriminatorResult | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  if (variants.length < 2) {
+    return null;
+  }
+
+  const groups = groupBySignature(documents, variants);
+  const docCount = [...groups.values()].reduce((sum, docs) => sum + docs.length, 0);
+
+  const candidates = collectCandidates(groups).filter(
+    (c) =>
+      c.distinct.size <= opts.maxValues &&
+      // 선호 이름이 아니면 값이 반복되는 저카디널리티 필드만 인정
+      (PREFERRED_NAMES.includes(c.field) || c.distinct.size * 2 <= docCount) &&
+      hasSingleValuePerVariant(c)
+  );
+
+  const best = candidates.sort(compareCandidates)[0];
+  if (!best) {
+    return null;
+  }
+
+  return {
+    field: best.field,
+    variants: variants.map((variant) => ({
+      ...variant,
+      discriminatorValues: [...(best.values.get(variant.signature) ?? [])].sort(),
+    })),
+  };
+}
@@ -4,7 +4,7 @@ import { sortPaths } from '../../utils/sort';
 
 // 변종 분석 상수
 const DEFAULT_SHAPE_MAX_DEPTH = 2;
-const SIGNATURE_PREFIX_LENGTH = 8;
+export const SIGNATURE_PREFIX_LENGTH = 8;
 
 export interface VariantOptions {
   topN: number;
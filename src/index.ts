@@ -1,12 +1,23 @@
 #!/usr/bin/env bun
 import { parseOptions, resolveConfig } from './cli/options';
 import { run, EXIT_CODES } from './cli/commands/run';
+import { diff } from './cli/commands/diff';
+import { check } from './cli/commands/check';
 import { logger } from './cli/logger';
 
 async function main(): Promise<void> {
   try {
-    const options = parseOptions(process.argv);
-    const config = resolveConfig(options);
+    const parsed = parseOptions(process.argv);
+
+    if (parsed.command === 'diff') {
+      process.exit(await diff(parsed.options));
+    }
+
+    if (parsed.command === 'check') {
+      process.exit(await check(resolveConfig(parsed.options)));
+    }
+
+    const config = resolveConfig(parsed.options);
     const exitCode = await run(config);
     process.exit(exitCode);
   } catch (error) {
@@ -3,13 +3,16 @@
  */
 
 import type { BsonType } from '../../types/bson';
-import type { FieldSchema } from '../../types/schema';
+import type { ConfidenceInterval, FieldSchema } from '../../types/schema';
 import { escapeHtml } from './utils';
 import { buildFieldTree, flattenTree, type FieldTreeNode } from './tree';
 
 // 렌더링 표시 제한 상수
 const MAX_EXAMPLES_DISPLAY = 3;
 
+// 히스토그램 스파크라인 문자 (낮음 → 높음)
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
 /**
  * 활성 rowspan 추적용 인터페이스
  */
@@ -18,10 +21,46 @@ interface ActiveRowspan {
   depth: number; // rowspan이 적용된 depth
 }
 
+/**
+ * 비율을 퍼센트 문자열로 포맷
+ */
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * 히스토그램을 스파크라인 문자로 포맷 (예: ▁▃█▅▂)
+ */
+function formatSparkline(histogram: number[]): string {
+  const peak = Math.max(...histogram);
+  if (peak === 0) return '';
+  return histogram
+    .map((count) => SPARK_CHARS[Math.round((count / peak) * (SPARK_CHARS.length - 1))] ?? '')
+    .join('');
+}
+
+/**
+ * UTC 오프셋 포맷 (예: UTC, UTC+9, UTC-5)
+ */
+function formatUtcOffset(hours: number): string {
+  if (hours === 0) return 'UTC';
+  return hours > 0 ? `UTC+${hours}` : `UTC${hours}`;
+}
+
+/**
+ * 신뢰구간 포맷 (예: 91–99%)
+ */
+function formatInterval(interval: ConfidenceInterval): string {
+  return `${Math.round(interval.lower * 100)}–${formatPercent(interval.upper)}`;
+}
+
 /**
  * 타입 비율 표시용 포맷팅
  */
-function formatTypeRatio(typeRatio: Partial<Record<BsonType, number>>): string {
+function formatTypeRatio(
+  typeRatio: Partial<Record<BsonType, number>>,
+  typeIntervals: Partial<Record<BsonType, ConfidenceInterval>> = {}
+): string {
   const entries = Object.entries(typeRatio) as [BsonType, number][];
   if (entries.length === 0) return '-';
 
@@ -30,7 +69,12 @@ function formatTypeRatio(typeRatio: Partial<Record<BsonType, number>>): string {
 
   return entries
     .sort((a, b) => b[1] - a[1])
-    .map(([type, ratio]) => `${type}(${Math.round(ratio * 100)}%)`)
+    .map(([type, ratio]) => {
+      const interval = typeIntervals[type];
+      return interval
+        ? `${type}(${formatPercent(ratio)}, ${formatInterval(interval)})`
+        : `${type}(${formatPercent(ratio)})`;
+    })
     .join(', ');
 }
 
@@ -56,12 +100,50 @@ function formatNotes(field: FieldSchema): string {
     notes.push('Mixed');
   }
 
+  if (field.mapKeys) {
+    notes.push(`Map (${field.mapKeys} keys)`);
+  }
+
   if (field.hints.length > 0) {
     notes.push(`PII: ${field.hints.join(', ')}`);
   }
 
   if (field.stats) {
-    notes.push(`min: ${field.stats.min.toFixed(2)}, max: ${field.stats.max.toFixed(2)}`);
+    const { min, max, p50, p90, p99, histogram } = field.stats;
+    notes.push(`min: ${min.toFixed(2)}, max: ${max.toFixed(2)}`);
+    if (p50 !== undefined && p90 !== undefined && p99 !== undefined) {
+      notes.push(`p50: ${p50.toFixed(2)}, p90: ${p90.toFixed(2)}, p99: ${p99.toFixed(2)}`);
+    }
+    if (histogram && histogram.length > 1) {
+      notes.push(formatSparkline(histogram));
+    }
+  }
+
+  const formats = Object.entries(field.stringProfile?.formats ?? {});
+  if (formats.length > 0) {
+    const labels = formats.map(([format, ratio]) => (ratio < 1 ? `${format} (${formatPercent(ratio)})` : format));
+    notes.push(`Format: ${labels.join(', ')}`);
+  }
+
+  const dates = field.dateProfile;
+  if (dates) {
+    notes.push(`Range: ${dates.earliest.slice(0, 10)} ~ ${dates.latest.slice(0, 10)}`);
+    if (dates.futureCount > 0) notes.push(`Future: ${dates.futureCount}`);
+    if (dates.epochCount > 0) notes.push(`Epoch (1970-01-01): ${dates.epochCount}`);
+    if (dates.dateOnlyOffset !== undefined) notes.push(`Date-only (${formatUtcOffset(dates.dateOnlyOffset)})`);
+  }
+
+  const arrays = field.arrayProfile;
+  if (arrays) {
+    notes.push(`Length: ${arrays.minLength}–${arrays.maxLength} (p95 ${arrays.p95Length})`);
+    if (arrays.tuple) notes.push(`Tuple [${arrays.tuple.join(', ')}]`);
+    if (arrays.unbounded) notes.push('Unbounded growth');
+  }
+
+  if (field.cardinality?.keyCandidate) {
+    notes.push('Key candidate (no unique index)');
+  } else if (field.cardinality?.lowCardinality) {
+    notes.push(`Low cardinality (~${field.cardinality.distinct} values)`);
   }
 
   return notes.length > 0 ? notes.join(' | ') : '-';
@@ -159,9 +241,13 @@ export function renderFieldsHtmlTable(fields: FieldSchema[]): string[] {
     }
 
     // 나머지 컬럼들
-    const presentPct = `${Math.round(field.presentRatio * 100)}%`;
-    const types = escapeHtml(formatTypeRatio(field.typeRatio));
-    const optional = field.optional ? 'Yes' : 'No';
+    const presentPct = field.exact
+      ? `${formatPercent(field.presentRatio)} (exact)`
+      : field.presentInterval
+      ? `${formatPercent(field.presentRatio)} (${formatInterval(field.presentInterval)})`
+      : formatPercent(field.presentRatio);
+    const types = escapeHtml(formatTypeRatio(field.typeRatio, field.typeIntervals));
+    const optional = `${field.optional ? 'Yes' : 'No'}${field.uncertain ? ' (uncertain)' : ''}`;
     const examples = formatExamples(field);
     const description = escapeHtml(field.description || '-');
     const notes = escapeHtml(formatNotes(field));
@@ -1,3 +1,10 @@
 export * from './markdown';
 export * from './json';
 export * from './html';
+export * from './text';
+export * from './jsonschema';
+export * from './validator';
+export * from './typescript';
+export * from './zod';
+export * from './mongoose';
+export * from './mermaid';
@@ -0,0 +1,10 @@
+import type { SchemaDiff } from '../../types/diff';
+import { deepSortKeys } from '../../utils/sort';
+
+/**
+ * 스키마 diff JSON 문자열화
+ * 결정적 출력을 위해 키 정렬
+ */
+export function stringifySchemaDiff(diff: SchemaDiff): string {
+  return JSON.stringify(deepSortKeys(diff), null, 2);
+}
@@ -1,11 +1,17 @@
 import { readFile } from 'fs/promises';
 import type { CollectionSchema, RunMeta, SchemaOutput } from '../../types/schema';
+import type { VerifiedRelation } from '../../types/relation';
 import { deepSortKeys } from '../../utils/sort';
 
 /**
  * schema.json 콘텐츠 렌더링
+ * 검증된 참조 관계가 있으면 relations 섹션 포함
  */
-export function renderSchemaJson(collections: CollectionSchema[], meta: RunMeta): SchemaOutput {
+export function renderSchemaJson(
+  collections: CollectionSchema[],
+  meta: RunMeta,
+  relations?: VerifiedRelation[]
+): SchemaOutput {
   const collectionsMap: Record<string, CollectionSchema> = {};
 
   for (const col of collections) {
@@ -17,6 +23,10 @@ export function renderSchemaJson(collections: CollectionSchema[], meta: RunMeta)
     collections: collectionsMap,
   };
 
+  if (relations) {
+    output.relations = relations;
+  }
+
   // 결정적 출력을 위한 깊은 정렬
   return deepSortKeys(output) as SchemaOutput;
 }
@@ -0,0 +1,272 @@
+/**
+ * JSON Schema (draft 2020-12) 렌더링
+ * 평탄화된 필드 경로로부터 중첩 properties/items 구조 재구성
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema } from '../../types/schema';
+import { splitPath, unescapeKey } from '../../core/flatten/escaping';
+import { MAP_WILDCARD } from '../../core/flatten/mapKeys';
+import { stableSort } from '../../utils/sort';
+
+export const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * JSON Schema 노드 (사용하는 키워드만 정의)
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  bsonType?: string | string[]; // MongoDB BSON 타입 확장 키워드
+  format?: string;
+  pattern?: string;
+  contentEncoding?: string;
+  enum?: (string | number | null)[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+}
+
+/**
+ * BSON 타입별 JSON Schema 매핑
+ * 매핑이 없는 타입은 제약 없음({})으로 처리
+ */
+const BSON_TO_JSON_SCHEMA: Partial<Record<BsonType, JsonSchema>> = {
+  [BsonType.Double]: { type: 'number' },
+  [BsonType.Decimal]: { type: 'number' },
+  [BsonType.Int]: { type: 'integer' },
+  [BsonType.Long]: { type: 'integer' },
+  [BsonType.String]: { type: 'string' },
+  [BsonType.Boolean]: { type: 'boolean' },
+  [BsonType.Null]: { type: 'null' },
+  [BsonType.Object]: { type: 'object' },
+  [BsonType.Array]: { type: 'array' },
+  [BsonType.Date]: { type: 'string', format: 'date-time' },
+  [BsonType.ObjectId]: { type: 'string', pattern: '^[0-9a-fA-F]{24}$' },
+  [BsonType.BinData]: { type: 'string', contentEncoding: 'base64' },
+  [BsonType.Regex]: { type: 'string', format: 'regex' },
+};
+
+/**
+ * 경로 트리 노드
+ * [*] 세그먼트는 items, {*} 세그먼트는 values(동적 키 맵 값), 나머지는 properties로 구분하여 보존
+ */
+export interface PathNode {
+  field: FieldSchema | null;
+  properties: Map<string, PathNode>;
+  items: PathNode | null;
+  values: PathNode | null;
+}
+
+function createPathNode(): PathNode {
+  return { field: null, properties: new Map(), items: null, values: null };
+}
+
+/**
+ * 필드 목록으로부터 경로 트리 생성
+ * 필드명은 언이스케이핑된 원래 키로 저장
+ */
+export function buildPathTree(fields: FieldSchema[]): PathNode {
+  const root = createPathNode();
+
+  for (const field of fields) {
+    let current = root;
+
+    for (const segment of splitPath(field.path)) {
+      if (segment === '[*]') {
+        current.items ??= createPathNode();
+        current = current.items;
+        continue;
+      }
+      if (segment === MAP_WILDCARD) {
+        current.values ??= createPathNode();
+        current = current.values;
+        continue;
+      }
+
+      const key = unescapeKey(segment);
+      let child = current.properties.get(key);
+      if (!child) {
+        child = createPathNode();
+        current.properties.set(key, child);
+      }
+      current = child;
+    }
+
+    current.field = field;
+  }
+
+  return root;
+}
+
+/**
+ * 타입 비율을 비율 내림차순으로 정렬한 타입 목록
+ */
+function sortTypesByRatio(ratio: Partial<Record<BsonType, number>>): BsonType[] {
+  return (Object.entries(ratio) as [BsonType, number][])
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([type]) => type);
+}
+
+/**
+ * 비율 내림차순으로 관찰된 타입 정렬
+ */
+export function getObservedTypes(field: FieldSchema): BsonType[] {
+  return sortTypesByRatio(field.typeRatio);
+}
+
+/**
+ * 비율 내림차순으로 관찰된 배열 요소 타입 정렬 (요소 정보가 없으면 빈 배열)
+ */
+export function getElementTypes(field: FieldSchema): BsonType[] {
+  return field.elementTypes ? sortTypesByRatio(field.elementTypes) : [];
+}
+
+/**
+ * 타입 목록으로부터 type/anyOf 및 bsonType 키워드 생성
+ */
+function buildTypeSchema(types: BsonType[]): JsonSchema {
+  if (types.length === 0) return {};
+
+  const variants = types.map((t) => BSON_TO_JSON_SCHEMA[t] ?? {});
+  const schema: JsonSchema = {};
+
+  if (variants.length === 1) {
+    Object.assign(schema, variants[0]);
+  } else if (variants.every((v) => v.type !== undefined && Object.keys(v).length === 1)) {
+    // 추가 키워드가 없으면 type 배열로 간결하게 표현
+    schema.type = [...new Set(variants.map((v) => v.type as string))];
+  } else {
+    schema.anyOf = variants;
+  }
+
+  schema.bsonType = types.length === 1 ? types[0] : types;
+
+  return schema;
+}
+
+/**
+ * 닫힌 enum으로 출력할 관찰 값 반환 (문자열 값만 대상)
+ */
+export function getClosedEnumValues(field: FieldSchema): string[] | null {
+  if (!field.enumValues || field.enumValues.length === 0) return null;
+  if (!field.enumValues.every((e) => typeof e.value === 'string')) return null;
+  return field.enumValues.map((e) => e.value as string);
+}
+
+/**
+ * 관찰 값 목록으로 enum 키워드 생성 (null이 관찰되었으면 포함)
+ */
+function buildEnumValues(field: FieldSchema): (string | null)[] | null {
+  const closed = getClosedEnumValues(field);
+  if (!closed) return null;
+
+  const values: (string | null)[] = [...closed];
+  if (field.typeRatio[BsonType.Null] !== undefined) {
+    values.push(null);
+  }
+  return values;
+}
+
+/**
+ * 자식 필드가 required인지 판단
+ * optional이 아니거나, 상위 필드가 존재하는 모든 문서에 함께 존재하면 required
+ */
+export function isRequiredField(child: FieldSchema, owner: FieldSchema | null): boolean {
+  if (!child.optional) return true;
+  return owner !== null && child.presentCount >= owner.presentCount;
+}
+
+/**
+ * 노드의 properties/required 키워드 생성
+ */
+function buildObjectMembers(node: PathNode, owner: FieldSchema | null): JsonSchema {
+  if (node.properties.size === 0) return {};
+
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  const keys = stableSort([...node.properties.keys()], (k) => k);
+
+  for (const key of keys) {
+    const child = node.properties.get(key);
+    if (!child) continue;
+
+    properties[key] = buildNodeSchema(child, owner);
+    if (child.field && isRequiredField(child.field, owner)) {
+      required.push(key);
+    }
+  }
+
+  return required.length > 0 ? { properties, required } : { properties };
+}
+
+/**
+ * 경로 트리 노드를 JSON Schema로 변환
+ */
+function buildNodeSchema(node: PathNode, owner: FieldSchema | null): JsonSchema {
+  const schema: JsonSchema = {};
+
+  if (node.field) {
+    if (node.field.description) {
+      schema.description = node.field.description;
+    }
+    Object.assign(schema, buildTypeSchema(getObservedTypes(node.field)));
+    const enumValues = buildEnumValues(node.field);
+    if (enumValues) {
+      schema.enum = enumValues;
+    }
+  } else if (node.properties.size > 0 || node.values) {
+    // 배열 요소([*])처럼 자체 필드 정보가 없는 객체 노드
+    schema.type = 'object';
+  }
+
+  // 하위 필드의 required 판단 기준은 가장 가까운 필드 정보를 가진 상위 노드
+  const nearestOwner = node.field ?? owner;
+  Object.assign(schema, buildObjectMembers(node, nearestOwner));
+
+  // 동적 키 맵은 키 대신 값 스키마로 표현
+  if (node.values) {
+    schema.additionalProperties = buildNodeSchema(node.values, nearestOwner);
+  }
+
+  if (node.items) {
+    schema.items = buildNodeSchema(node.items, nearestOwner);
+  } else if (node.field?.elementTypes) {
+    // 하위 필드가 없는 스칼라 배열은 요소 타입 분포로 items 표현
+    schema.items = buildTypeSchema(getElementTypes(node.field));
+  }
+
+  return schema;
+}
+
+/**
+ * 컬렉션 스키마를 JSON Schema 문서로 렌더링
+ */
+export function renderJsonSchema(collection: CollectionSchema): JsonSchema {
+  const root = buildPathTree(collection.fields);
+
+  const document: JsonSchema = {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: collection.name,
+  };
+
+  if (collection.summary) {
+    document.description = collection.summary;
+  }
+
+  document.type = 'object';
+  Object.assign(document, buildObjectMembers(root, null));
+
+  return document;
+}
+
+/**
+ * JSON Schema 문서 문자열화
+ */
+export function stringifyJsonSchema(schema: JsonSchema): string {
+  return JSON.stringify(schema, null, 2);
+}
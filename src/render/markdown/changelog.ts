@@ -0,0 +1,100 @@
+import type { CollectionDiff, SchemaDiff } from '../../types/diff';
+import { formatFieldChange } from './diff';
+
+const CHANGELOG_HEADER = '# Changelog';
+
+/**
+ * 코드 스팬 목록 포맷
+ */
+function formatNames(names: string[]): string {
+  return names.map((n) => `\`${n}\``).join(', ');
+}
+
+/**
+ * 컬렉션 변경 사항 목록 렌더링
+ */
+function renderCollectionChanges(diff: CollectionDiff): string[] {
+  const lines: string[] = [];
+
+  lines.push(`### ${diff.name}`);
+  lines.push('');
+
+  if (diff.addedFields.length > 0) {
+    lines.push(`- New fields: ${formatNames(diff.addedFields)}`);
+  }
+  if (diff.removedFields.length > 0) {
+    lines.push(`- Removed fields: ${formatNames(diff.removedFields)}`);
+  }
+
+  const typeChanges = diff.changedFields.filter((c) => c.typeShifts.length > 0);
+  for (const change of typeChanges) {
+    const shifts = formatFieldChange({ path: change.path, typeShifts: change.typeShifts });
+    lines.push(`- Type change: \`${change.path}\` (${shifts.join(', ')})`);
+  }
+
+  const otherChanges = diff.changedFields.filter((c) => c.typeShifts.length === 0);
+  if (otherChanges.length > 0) {
+    lines.push(`- Presence changes: ${formatNames(otherChanges.map((c) => c.path))}`);
+  }
+
+  // 변종은 signature 대신 판별자 값이나 구별되는 path로 표시
+  const variantLabel = (signature: string) => diff.variants.labels[signature] ?? signature;
+  if (diff.variants.added.length > 0) {
+    lines.push(`- New variants: ${formatNames(diff.variants.added.map(variantLabel))}`);
+  }
+  if (diff.variants.removed.length > 0) {
+    lines.push(`- Removed variants: ${formatNames(diff.variants.removed.map(variantLabel))}`);
+  }
+  if (diff.indexes.added.length > 0) {
+    lines.push(`- New indexes: ${formatNames(diff.indexes.added)}`);
+  }
+  if (diff.indexes.removed.length > 0) {
+    lines.push(`- Removed indexes: ${formatNames(diff.indexes.removed)}`);
+  }
+  if (diff.indexes.changed.length > 0) {
+    lines.push(`- Changed indexes: ${formatNames(diff.indexes.changed)}`);
+  }
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * CHANGELOG.md 항목 렌더링
+ * snapshot은 비교 기준이 된 이전 schema.json의 보관 경로
+ */
+export function renderChangelogEntry(diff: SchemaDiff, snapshot: string): string {
+  const lines: string[] = [];
+
+  lines.push(`## ${diff.head.generatedAt}`);
+  lines.push('');
+  lines.push(`Compared with [${diff.base.generatedAt}](${snapshot})`);
+  lines.push('');
+
+  if (diff.addedCollections.length > 0) {
+    lines.push(`- New collections: ${formatNames(diff.addedCollections)}`);
+  }
+  if (diff.removedCollections.length > 0) {
+    lines.push(`- Removed collections: ${formatNames(diff.removedCollections)}`);
+  }
+  if (diff.addedCollections.length > 0 || diff.removedCollections.length > 0) {
+    lines.push('');
+  }
+
+  for (const collection of diff.collections) {
+    lines.push(...renderCollectionChanges(collection));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 기존 CHANGELOG.md에 새 항목 추가 (최신 항목이 위로 오도록 헤더 바로 아래 삽입)
+ */
+export function mergeChangelog(existing: string | null, entry: string): string {
+  const body = existing?.startsWith(CHANGELOG_HEADER)
+    ? existing.slice(CHANGELOG_HEADER.length).replace(/^\n+/, '')
+    : (existing ?? '');
+
+  return [CHANGELOG_HEADER, '', entry.trimEnd(), '', body].join('\n').trimEnd() + '\n';
+}
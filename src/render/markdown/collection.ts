@@ -1,10 +1,28 @@
-import type { CollectionSchema, FieldSchema, IndexInfo, Variant } from '../../types/schema';
+import type {
+  CollectionSchema,
+  CollectionTimeline,
+  FieldSchema,
+  FieldTrend,
+  IndexInfo,
+  SamplingConvergence,
+  Variant,
+} from '../../types/schema';
 import { formatTableCell } from './utils';
+import { formatEnumValues } from '../../core/infer/enums';
 import { renderFieldsHtmlTable } from '../html';
 
 // 렌더링 표시 제한 상수
 const MAX_DIFF_ITEMS_DISPLAY = 3;
 
+// 필드 추이 표시 이름
+const TREND_LABELS: Record<FieldTrend, string> = {
+  stable: 'Stable',
+  new: '🆕 New',
+  deprecated: '⚠️ Deprecated',
+  growing: '↗ Growing',
+  declining: '↘ Declining',
+};
+
 /**
  * 필드 테이블 렌더링
  */
@@ -19,6 +37,61 @@ function renderFieldsTable(fields: FieldSchema[]): string[] {
   return lines;
 }
 
+/**
+ * enum 후보 필드의 관찰 값 테이블 렌더링
+ */
+function renderAllowedValues(fields: FieldSchema[]): string[] {
+  const lines: string[] = [];
+  const enumFields = fields.filter((f) => f.enumValues && f.enumValues.length > 0);
+
+  if (enumFields.length === 0) return lines;
+
+  lines.push('## Allowed Values');
+  lines.push('');
+  lines.push('| Field | Values |');
+  lines.push('|-------|--------|');
+  for (const field of enumFields) {
+    const values = formatEnumValues(field.enumValues ?? []).join(', ');
+    lines.push(`| ${formatTableCell(field.path)} | ${formatTableCell(values, 300)} |`);
+  }
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * 숫자 간결 포맷 (소수점 최대 2자리)
+ */
+function formatNumber(value: number | undefined): string {
+  return value === undefined ? '-' : String(Math.round(value * 100) / 100);
+}
+
+/**
+ * 숫자형 필드 분포 통계 테이블 렌더링
+ */
+function renderNumericStats(fields: FieldSchema[]): string[] {
+  const lines: string[] = [];
+  const numericFields = fields.filter((f) => f.stats?.p50 !== undefined);
+
+  if (numericFields.length === 0) return lines;
+
+  lines.push('## Numeric Statistics');
+  lines.push('');
+  lines.push('| Field | Min | P50 | P90 | P99 | Max | Avg | Std Dev | Zero | Negative |');
+  lines.push('|-------|-----|-----|-----|-----|-----|-----|---------|------|----------|');
+  for (const field of numericFields) {
+    const s = field.stats;
+    if (!s) continue;
+    const cells = [s.min, s.p50, s.p90, s.p99, s.max, s.avg, s.stdDev].map(formatNumber);
+    lines.push(
+      `| ${formatTableCell(field.path)} | ${cells.join(' | ')} | ${s.zeroCount ?? '-'} | ${s.negativeCount ?? '-'} |`
+    );
+  }
+  lines.push('');
+
+  return lines;
+}
+
 /**
  * 인덱스 테이블 렌더링
  */
@@ -50,7 +123,7 @@ function renderIndexesTable(indexes: IndexInfo[]): string[] {
 /**
  * 변형 테이블 렌더링
  */
-function renderVariantsTable(variants: Variant[]): string[] {
+function renderVariantsTable(variants: Variant[], discriminator?: string): string[] {
   const lines: string[] = [];
 
   if (variants.length === 0) return lines;
@@ -62,7 +135,10 @@ function renderVariantsTable(variants: Variant[]): string[] {
 
   for (let i = 0; i < variants.length; i++) {
     const v = variants[i];
-    const label = i === 0 ? `#${i + 1} (primary)` : `#${i + 1}`;
+    let label = i === 0 ? `#${i + 1} (primary)` : `#${i + 1}`;
+    if (discriminator && v?.discriminatorValues) {
+      label += ` ${formatTableCell(`${discriminator}=${v.discriminatorValues.join('/')}`)}`;
+    }
     const ratio = `${Math.round(v.ratio * 100)}%`;
 
     let diff = '-';
@@ -86,6 +162,65 @@ function renderVariantsTable(variants: Variant[]): string[] {
   return lines;
 }
 
+/**
+ * 적응형 샘플링 수렴 정보 포맷
+ */
+function formatConvergence(convergence: SamplingConvergence | undefined): string {
+  if (!convergence) return '';
+
+  const status = convergence.converged ? 'converged' : 'max sample size reached';
+  return ` (adaptive: ${status} after ${convergence.batches} batches, score ${convergence.score.toFixed(2)})`;
+}
+
+/**
+ * ISO 시각을 날짜로 축약
+ */
+function formatDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+/**
+ * 필드 시간 추이 렌더링
+ * 출현 비율이 변한 필드만 표시
+ */
+function renderFieldEvolution(timeline: CollectionTimeline | undefined, fields: FieldSchema[]): string[] {
+  const lines: string[] = [];
+
+  if (!timeline) return lines;
+
+  lines.push('## Field Evolution');
+  lines.push('');
+  lines.push(`Sampled documents grouped by \`${timeline.field}\` time:`);
+  lines.push('');
+  lines.push('| Period | Range | Documents |');
+  lines.push('|--------|-------|-----------|');
+  timeline.buckets.forEach((bucket, i) => {
+    lines.push(`| ${i + 1} | ${formatDate(bucket.start)} ~ ${formatDate(bucket.end)} | ${bucket.count} |`);
+  });
+  lines.push('');
+
+  const changed = fields.filter((f) => f.timeline && f.timeline.trend !== 'stable');
+  if (changed.length === 0) {
+    lines.push('No fields changed presence across periods.');
+    lines.push('');
+    return lines;
+  }
+
+  lines.push('| Field | Trend | First Seen | Last Seen | Presence by Period |');
+  lines.push('|-------|-------|------------|-----------|--------------------|');
+  for (const field of changed) {
+    const t = field.timeline;
+    if (!t) continue;
+    const presence = t.presentRatios.map((r) => `${Math.round(r * 100)}%`).join(' → ');
+    lines.push(
+      `| ${formatTableCell(field.path)} | ${TREND_LABELS[t.trend]} | ${formatDate(t.firstSeen)} | ${formatDate(t.lastSeen)} | ${presence} |`
+    );
+  }
+  lines.push('');
+
+  return lines;
+}
+
 /**
  * 컬렉션 Markdown 렌더링
  */
@@ -95,10 +230,16 @@ export function renderCollection(schema: CollectionSchema): string {
   // 헤더
   lines.push(`# Collection: ${schema.name}`);
   lines.push('');
+  if (schema.removedAt) {
+    lines.push(`- Status: Removed (detected at ${schema.removedAt})`);
+  }
   lines.push(`- Estimated Documents: ~${schema.estimatedCount.toLocaleString()}`);
-  lines.push(`- Sampled: ${schema.sampledCount}`);
+  lines.push(`- Sampled: ${schema.sampledCount}${formatConvergence(schema.convergence)}`);
   lines.push(`- Indexes: ${schema.indexes.length}`);
   lines.push(`- Variants: ${schema.variants.length}`);
+  if (schema.discriminator) {
+    lines.push(`- Discriminator: \`${schema.discriminator}\``);
+  }
   lines.push(`- Fields: ${schema.fields.length}`);
   lines.push('');
 
@@ -123,11 +264,20 @@ export function renderCollection(schema: CollectionSchema): string {
   // 필드
   lines.push(...renderFieldsTable(schema.fields));
 
+  // 관찰 값 (enum 후보)
+  lines.push(...renderAllowedValues(schema.fields));
+
+  // 숫자형 분포 통계
+  lines.push(...renderNumericStats(schema.fields));
+
   // 인덱스
   lines.push(...renderIndexesTable(schema.indexes));
 
   // 변형
-  lines.push(...renderVariantsTable(schema.variants));
+  lines.push(...renderVariantsTable(schema.variants, schema.discriminator));
+
+  // 필드 시간 추이
+  lines.push(...renderFieldEvolution(schema.timeline, schema.fields));
 
   return lines.join('\n');
 }
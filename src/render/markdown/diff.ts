@@ -0,0 +1,134 @@
+import type { CollectionDiff, FieldChange, SchemaDiff } from '../../types/diff';
+import { escapeTableCell } from './utils';
+
+/**
+ * 비율을 퍼센트 문자열로 포맷
+ */
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * 필드 변경 사항을 사람이 읽을 수 있는 문자열 목록으로 변환
+ */
+export function formatFieldChange(change: FieldChange): string[] {
+  const parts: string[] = [];
+
+  if (change.presentRatio) {
+    parts.push(`present ${formatPercent(change.presentRatio.before)} → ${formatPercent(change.presentRatio.after)}`);
+  }
+
+  if (change.optional) {
+    const label = (optional: boolean) => (optional ? 'optional' : 'required');
+    parts.push(`${label(change.optional.before)} → ${label(change.optional.after)}`);
+  }
+
+  for (const shift of change.typeShifts) {
+    parts.push(`${shift.type} ${formatPercent(shift.before)} → ${formatPercent(shift.after)}`);
+  }
+
+  return parts;
+}
+
+/**
+ * 코드 스팬 목록 포맷
+ */
+function formatNames(names: string[]): string {
+  return names.map((n) => `\`${n}\``).join(', ');
+}
+
+/**
+ * 컬렉션 diff 섹션 렌더링
+ */
+function renderCollectionDiff(diff: CollectionDiff): string[] {
+  const lines: string[] = [];
+
+  lines.push(`### ${diff.name}`);
+  lines.push('');
+
+  const hasFieldChanges =
+    diff.addedFields.length > 0 || diff.removedFields.length > 0 || diff.changedFields.length > 0;
+
+  if (hasFieldChanges) {
+    lines.push('| Change | Path | Details |');
+    lines.push('|--------|------|---------|');
+
+    for (const path of diff.addedFields) {
+      lines.push(`| Added | \`${escapeTableCell(path)}\` | - |`);
+    }
+    for (const path of diff.removedFields) {
+      lines.push(`| Removed | \`${escapeTableCell(path)}\` | - |`);
+    }
+    for (const change of diff.changedFields) {
+      const details = escapeTableCell(formatFieldChange(change).join(', '));
+      lines.push(`| Changed | \`${escapeTableCell(change.path)}\` | ${details} |`);
+    }
+    lines.push('');
+  }
+
+  const { indexes, variants } = diff;
+  if (indexes.added.length > 0) {
+    lines.push(`- Indexes added: ${formatNames(indexes.added)}`);
+  }
+  if (indexes.removed.length > 0) {
+    lines.push(`- Indexes removed: ${formatNames(indexes.removed)}`);
+  }
+  if (indexes.changed.length > 0) {
+    lines.push(`- Indexes changed: ${formatNames(indexes.changed)}`);
+  }
+  if (variants.added.length > 0) {
+    lines.push(`- Variants added: ${formatNames(variants.added)}`);
+  }
+  if (variants.removed.length > 0) {
+    lines.push(`- Variants removed: ${formatNames(variants.removed)}`);
+  }
+
+  if (lines[lines.length - 1] !== '') {
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * 스키마 diff Markdown 렌더링 (PR 코멘트용)
+ */
+export function renderSchemaDiffMarkdown(diff: SchemaDiff): string {
+  const lines: string[] = [];
+
+  lines.push(`# Schema Diff: ${diff.head.database}`);
+  lines.push('');
+  lines.push(`- Base: ${diff.base.generatedAt}`);
+  lines.push(`- Head: ${diff.head.generatedAt}`);
+  lines.push('');
+
+  const hasCollectionChanges = diff.addedCollections.length > 0 || diff.removedCollections.length > 0;
+
+  if (!hasCollectionChanges && diff.collections.length === 0) {
+    lines.push('No schema changes detected.');
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  if (hasCollectionChanges) {
+    lines.push('## Collections');
+    lines.push('');
+    if (diff.addedCollections.length > 0) {
+      lines.push(`- Added: ${formatNames(diff.addedCollections)}`);
+    }
+    if (diff.removedCollections.length > 0) {
+      lines.push(`- Removed: ${formatNames(diff.removedCollections)}`);
+    }
+    lines.push('');
+  }
+
+  if (diff.collections.length > 0) {
+    lines.push('## Changes');
+    lines.push('');
+    for (const collection of diff.collections) {
+      lines.push(...renderCollectionDiff(collection));
+    }
+  }
+
+  return lines.join('\n');
+}
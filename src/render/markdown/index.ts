@@ -1,3 +1,5 @@
 export * from './readme';
 export * from './collection';
+export * from './diff';
+export * from './changelog';
 export * from './utils';
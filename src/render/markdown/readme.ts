@@ -1,19 +1,33 @@
 import type { CollectionSchema, RunMeta } from '../../types/schema';
+import type { Relation } from '../../types/relation';
 import { stableSort } from '../../utils/sort';
+import { renderErDiagram } from '../mermaid/erd';
 import { escapeTableCell } from './utils';
 
+/**
+ * 문서 수 약식 표기 (예: ~12K)
+ */
+function formatDocCount(count: number): string {
+  return count >= 1000 ? `~${Math.round(count / 1000)}K` : `~${count}`;
+}
+
 /**
  * README.md 콘텐츠 렌더링
  */
-export function renderReadme(collections: CollectionSchema[], meta: RunMeta): string {
+export function renderReadme(collections: CollectionSchema[], meta: RunMeta, relations: Relation[] = []): string {
   const lines: string[] = [];
+  const activeCollections = collections.filter((c) => !c.removedAt);
+  const removedCollections = collections.filter((c) => c.removedAt);
 
   // 헤더
   lines.push('# Schema Documentation');
   lines.push('');
   lines.push(`Generated: ${meta.generatedAt}`);
   lines.push(`Database: ${meta.database}`);
-  lines.push(`Collections: ${collections.length}`);
+  lines.push(`Collections: ${activeCollections.length}`);
+  if (removedCollections.length > 0) {
+    lines.push(`Removed Collections: ${removedCollections.length}`);
+  }
   lines.push('');
 
   // 샘플링 옵션
@@ -30,10 +44,29 @@ export function renderReadme(collections: CollectionSchema[], meta: RunMeta): st
   if (meta.sampling.match) {
     lines.push(`- Match Filter: ${meta.sampling.match}`);
   }
+  if (meta.sampling.buckets) {
+    lines.push(`- Buckets: ${meta.sampling.buckets} (by ${meta.sampling.timeField ?? '_id'})`);
+  }
   lines.push(`- Redaction: ${meta.options.redact}`);
   lines.push(`- Max Depth: ${meta.options.maxDepth}`);
   lines.push('');
 
+  // stratified 구간별 샘플 수
+  const bucketCounts = Object.entries(meta.sampling.bucketCounts ?? {});
+  if (bucketCounts.length > 0) {
+    lines.push('### Samples per Bucket');
+    lines.push('');
+    lines.push('| Collection | Range | Samples per Bucket |');
+    lines.push('|------------|-------|--------------------|');
+    for (const [name, buckets] of stableSort(bucketCounts, ([n]) => n)) {
+      const range = buckets.length > 0
+        ? `${buckets[0]?.start.slice(0, 10)} ~ ${buckets[buckets.length - 1]?.end.slice(0, 10)}`
+        : '-';
+      lines.push(`| ${escapeTableCell(name)} | ${range} | ${buckets.map((b) => b.count).join(' / ')} |`);
+    }
+    lines.push('');
+  }
+
   // 잘림 경고
   const { truncationCounters } = meta;
   if (
@@ -61,20 +94,40 @@ export function renderReadme(collections: CollectionSchema[], meta: RunMeta): st
   lines.push('| Collection | Documents | Fields | Variants | Warnings |');
   lines.push('|------------|-----------|--------|----------|----------|');
 
-  const sortedCollections = stableSort(collections, (c) => c.name);
-
-  for (const col of sortedCollections) {
+  for (const col of stableSort(activeCollections, (c) => c.name)) {
     const warnings = col.warnings.length > 0 ? escapeTableCell(col.warnings.join(', ')) : '-';
-    const docCount = col.estimatedCount >= 1000
-      ? `~${Math.round(col.estimatedCount / 1000)}K`
-      : `~${col.estimatedCount}`;
 
     lines.push(
-      `| [${col.name}](./collections/${col.name}.md) | ${docCount} | ${col.fields.length} | ${col.variants.length} | ${warnings} |`
+      `| [${col.name}](./collections/${col.name}.md) | ${formatDocCount(col.estimatedCount)} | ${col.fields.length} | ${col.variants.length} | ${warnings} |`
     );
   }
   lines.push('');
 
+  // 삭제된 컬렉션 (이전 실행에서 보존)
+  if (removedCollections.length > 0) {
+    lines.push('## Removed Collections');
+    lines.push('');
+    lines.push('| Collection | Removed At | Last Documents | Fields |');
+    lines.push('|------------|------------|----------------|--------|');
+
+    for (const col of stableSort(removedCollections, (c) => c.name)) {
+      lines.push(
+        `| 🗑️ [${col.name}](./collections/${col.name}.md) | ${col.removedAt} | ${formatDocCount(col.estimatedCount)} | ${col.fields.length} |`
+      );
+    }
+    lines.push('');
+  }
+
+  // ER 다이어그램
+  if (activeCollections.length > 0) {
+    lines.push('## Entity Relationships');
+    lines.push('');
+    lines.push('```mermaid');
+    lines.push(renderErDiagram(activeCollections, relations).trimEnd());
+    lines.push('```');
+    lines.push('');
+  }
+
   // 전역 경고
   const collectionsWithPII = collections.filter((c) =>
     c.fields.some((f) => f.hints.length > 0)
@@ -0,0 +1,85 @@
+/**
+ * Mermaid erDiagram 렌더링
+ * 컬렉션별 최상위 필드와 추론된 참조 관계를 다이어그램으로 표현
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema } from '../../types/schema';
+import type { Relation, RelationCardinality } from '../../types/relation';
+import { splitPath, unescapeKey } from '../../core/flatten/escaping';
+import { stableSort } from '../../utils/sort';
+import { getObservedTypes } from '../jsonschema/schema';
+
+const INDENT = '    ';
+
+/**
+ * 카디널리티별 Mermaid 관계 표기 (참조하는 쪽 → 대상)
+ */
+const CARDINALITY_NOTATION: Record<RelationCardinality, string> = {
+  '1:1': '|o--||',
+  '1:N': '}o--||',
+  'N:M': '}o--o{',
+};
+
+/**
+ * Mermaid 식별자로 사용할 수 없는 문자 치환
+ */
+function toIdentifier(name: string): string {
+  const safe = name.replace(/[^A-Za-z0-9_-]/g, '_');
+  return /^[A-Za-z_]/.test(safe) ? safe : `_${safe}`;
+}
+
+/**
+ * 속성 타입 결정 (혼합 타입은 mixed)
+ */
+function formatAttributeType(field: FieldSchema): string {
+  const types = getObservedTypes(field).filter((t) => t !== BsonType.Null);
+  if (types.length === 0) return 'null';
+  return types.length === 1 ? toIdentifier(types[0] as string) : 'mixed';
+}
+
+/**
+ * 컬렉션 엔티티 블록 렌더링 (최상위 필드만)
+ */
+function renderEntity(collection: CollectionSchema, foreignKeys: Set<string>): string[] {
+  const fields = collection.fields.filter((f) => splitPath(f.path).length === 1);
+  const entity = toIdentifier(collection.name);
+  if (fields.length === 0) return [`${INDENT}${entity}`];
+
+  const lines = [`${INDENT}${entity} {`];
+
+  for (const field of stableSort(fields, (f) => f.path)) {
+    const name = unescapeKey(field.path);
+    const keys = [
+      ...(name === '_id' ? ['PK'] : []),
+      ...(foreignKeys.has(field.path) ? ['FK'] : []),
+    ];
+    const suffix = keys.length > 0 ? ` ${keys.join(', ')}` : '';
+    lines.push(`${INDENT}${INDENT}${formatAttributeType(field)} ${toIdentifier(name)}${suffix}`);
+  }
+
+  lines.push(`${INDENT}}`);
+  return lines;
+}
+
+/**
+ * 컬렉션과 참조 관계를 Mermaid erDiagram으로 렌더링
+ * 카디널리티가 검증되지 않은 관계는 다대일(}o--||)로 표현
+ */
+export function renderErDiagram(collections: CollectionSchema[], relations: Relation[]): string {
+  const lines = ['erDiagram'];
+  const sorted = stableSort(collections, (c) => c.name);
+
+  for (const collection of sorted) {
+    const foreignKeys = new Set(relations.filter((r) => r.from === collection.name).map((r) => r.path));
+    lines.push(...renderEntity(collection, foreignKeys));
+  }
+
+  for (const relation of stableSort(relations, (r) => `${r.from}.${r.path}`)) {
+    const label = JSON.stringify(relation.path);
+    const notation = CARDINALITY_NOTATION[relation.cardinality ?? '1:N'];
+    lines.push(`${INDENT}${toIdentifier(relation.from)} ${notation} ${toIdentifier(relation.to)} : ${label}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
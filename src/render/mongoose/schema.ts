@@ -0,0 +1,315 @@
+/**
+ * Mongoose Schema 렌더링
+ * 모델이 없는 기존 서비스를 위해 컬렉션별 new Schema({...}) 정의 생성
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema, IndexInfo } from '../../types/schema';
+import type { Relation } from '../../types/relation';
+import { unescapeKey } from '../../core/flatten/escaping';
+import { MAP_WILDCARD } from '../../core/flatten/mapKeys';
+import { isNumericType } from '../../core/infer/analyzer';
+import { stableSort } from '../../utils/sort';
+import { buildFieldTree, type FieldTreeNode } from '../html/tree';
+import { getElementTypes, getObservedTypes, isRequiredField } from '../jsonschema/schema';
+import { formatPropertyKey, renderJsDoc, toPascalCase } from '../typescript/interface';
+
+const INDENT = '  ';
+const MIXED = 'Schema.Types.Mixed';
+
+/**
+ * BSON 타입별 Mongoose SchemaType 매핑
+ * 매핑이 없는 타입은 Mixed로 처리
+ */
+const BSON_TO_MONGOOSE: Partial<Record<BsonType, string>> = {
+  [BsonType.Double]: 'Number',
+  [BsonType.Int]: 'Number',
+  [BsonType.Long]: 'Number',
+  [BsonType.Decimal]: 'Schema.Types.Decimal128',
+  [BsonType.String]: 'String',
+  [BsonType.Symbol]: 'String',
+  [BsonType.Boolean]: 'Boolean',
+  [BsonType.Date]: 'Date',
+  [BsonType.ObjectId]: 'Schema.Types.ObjectId',
+  [BsonType.BinData]: 'Buffer',
+};
+
+/**
+ * 필드에 인라인으로 지정할 인덱스 옵션
+ */
+interface FieldIndexOption {
+  unique: boolean;
+  sparse: boolean;
+}
+
+/**
+ * Mongoose 렌더링 컨텍스트
+ */
+interface RenderContext {
+  prefix: string; // 서브도큐먼트 스키마 이름 접두사
+  declarations: string[]; // 서브도큐먼트 스키마 선언 (하위 스키마가 먼저 오도록 순서 유지)
+  names: Set<string>; // 사용된 스키마 변수명
+  fieldIndexes: Map<string, FieldIndexOption>; // 최상위 필드명 → 인라인 인덱스 옵션
+  refs: Map<string, string>; // 참조 필드 경로 → 대상 모델명
+}
+
+/**
+ * 컬렉션명을 스키마 변수명으로 변환
+ * 예: user_sessions → userSessionsSchema
+ */
+export function toMongooseSchemaName(collectionName: string): string {
+  const pascal = toPascalCase(collectionName);
+  return `${pascal[0]?.toLowerCase() ?? ''}${pascal.slice(1)}Schema`;
+}
+
+/**
+ * 필드 옵션으로 표현할 수 있는 단일 필드 인덱스인지 확인 (최상위 필드의 오름차순 단일 키)
+ */
+function isInlineIndex(index: IndexInfo): boolean {
+  const keys = Object.entries(index.key);
+  if (keys.length !== 1 || index.expireAfterSeconds !== undefined) return false;
+
+  const [path, direction] = keys[0] as [string, number];
+  return direction === 1 && path !== '_id' && !path.includes('.');
+}
+
+/**
+ * 타입 목록의 단일 주 타입 결정
+ * Null/Undefined를 제외한 타입이 둘 이상이면 null (Mixed로 처리)
+ */
+function resolvePrimaryType(observed: BsonType[]): BsonType | null {
+  const types = observed.filter((t) => t !== BsonType.Null && t !== BsonType.Undefined);
+  // Decimal128을 제외한 숫자형은 모두 Number로 디코딩되므로 같은 타입으로 취급
+  const merged = new Set(types.map((t) => (isNumericType(t) && t !== BsonType.Decimal ? BsonType.Double : t)));
+
+  return merged.size === 1 ? (types[0] ?? null) : null;
+}
+
+/**
+ * 필드의 단일 주 타입 결정
+ */
+function getPrimaryType(field: FieldSchema): BsonType | null {
+  return resolvePrimaryType(getObservedTypes(field));
+}
+
+/**
+ * 하위 필드가 없는 배열의 요소 SchemaType 렌더링
+ * 참조 관계가 있으면 ref를 포함한 요소 정의로 표현
+ */
+function renderScalarElement(field: FieldSchema, ctx: RenderContext): string {
+  const type = resolvePrimaryType(getElementTypes(field));
+  const schemaType = (type && BSON_TO_MONGOOSE[type]) ?? MIXED;
+  const ref = ctx.refs.get(field.path);
+
+  return ref && schemaType !== MIXED ? `{ type: ${schemaType}, ref: ${JSON.stringify(ref)} }` : schemaType;
+}
+
+/**
+ * Mongoose가 자동 생성하는 ObjectId _id인지 확인
+ */
+function isAutoObjectId(segments: string[], field: FieldSchema | null): boolean {
+  return segments.length === 1 && segments[0] === '_id' && field !== null && getPrimaryType(field) === BsonType.ObjectId;
+}
+
+/**
+ * 서브도큐먼트 스키마 선언 생성 후 변수명 반환
+ */
+function declareSubSchema(
+  segments: string[],
+  children: FieldTreeNode[],
+  owner: FieldSchema | null,
+  ctx: RenderContext
+): string {
+  const members = renderMembers(children, owner, segments, ctx);
+
+  let name = `${ctx.prefix}${toPascalCase(segments.join('_'))}Schema`;
+  for (let i = 2; ctx.names.has(name); i++) {
+    name = `${ctx.prefix}${toPascalCase(segments.join('_'))}${i}Schema`;
+  }
+  ctx.names.add(name);
+
+  // 관찰된 데이터에 _id가 없으면 서브도큐먼트 _id 자동 생성 비활성화
+  const hasId = children.some((c) => c.segment === '_id');
+  const closing = hasId ? [`${INDENT}}`] : [`${INDENT}},`, `${INDENT}{ _id: false }`];
+
+  ctx.declarations.push(`const ${name} = new Schema(`, `${INDENT}{`, ...members, ...closing, ');', '');
+  return name;
+}
+
+/**
+ * 노드의 type 표현식 렌더링
+ * 하위 필드가 있는 객체는 서브도큐먼트 스키마, 배열은 [T]로 표현
+ */
+function renderNodeType(
+  node: FieldTreeNode,
+  owner: FieldSchema | null,
+  segments: string[],
+  ctx: RenderContext
+): string {
+  const field = node.field;
+  const nearestOwner = field ?? owner;
+  const hasChildren = node.children.length > 0;
+
+  if (!field) {
+    return hasChildren ? declareSubSchema(segments, node.children, nearestOwner, ctx) : MIXED;
+  }
+
+  const type = getPrimaryType(field);
+  if (type === BsonType.Object) {
+    return hasChildren ? declareSubSchema(segments, node.children, nearestOwner, ctx) : MIXED;
+  }
+  if (type === BsonType.Array) {
+    return `[${hasChildren ? declareSubSchema(segments, node.children, nearestOwner, ctx) : renderScalarElement(field, ctx)}]`;
+  }
+
+  return (type && BSON_TO_MONGOOSE[type]) ?? MIXED;
+}
+
+/**
+ * 스키마 정의 객체 멤버 렌더링
+ */
+function renderMembers(
+  children: FieldTreeNode[],
+  owner: FieldSchema | null,
+  parentSegments: string[],
+  ctx: RenderContext
+): string[] {
+  const indent = INDENT.repeat(2);
+  const lines: string[] = [];
+
+  for (const child of stableSort(children, (c) => c.segment)) {
+    const segment = unescapeKey(child.segment);
+    const segments = [...parentSegments, segment];
+
+    // ObjectId _id는 Mongoose가 자동으로 정의
+    if (isAutoObjectId(segments, child.field)) continue;
+
+    // 동적 키 맵({*}만 하위에 있는 객체)은 Map으로 표현
+    const mapChild = child.children.length === 1 && child.children[0]?.segment === MAP_WILDCARD ? child.children[0] : null;
+    const options = mapChild
+      ? ['type: Map', `of: ${renderNodeType(mapChild, child.field ?? owner, segments, ctx)}`]
+      : [`type: ${renderNodeType(child, owner, segments, ctx)}`];
+    // 스칼라 참조 필드는 populate 대상 모델 지정 (배열은 요소 정의에 포함)
+    const ref = child.field ? ctx.refs.get(child.field.path) : undefined;
+    const primary = child.field ? getPrimaryType(child.field) : null;
+    if (!mapChild && ref && primary && BSON_TO_MONGOOSE[primary]) {
+      options.push(`ref: ${JSON.stringify(ref)}`);
+    }
+    if (child.field && isRequiredField(child.field, owner)) {
+      options.push('required: true');
+    }
+
+    const index = segments.length === 1 ? ctx.fieldIndexes.get(segment) : undefined;
+    if (index) {
+      options.push(index.unique ? 'unique: true' : 'index: true');
+      if (index.sparse) options.push('sparse: true');
+    }
+
+    if (child.field?.description) {
+      lines.push(...renderJsDoc(child.field.description, indent));
+    }
+    lines.push(`${indent}${formatPropertyKey(segment)}: { ${options.join(', ')} },`);
+  }
+
+  return lines;
+}
+
+/**
+ * schema.index() 호출 렌더링
+ */
+function renderIndexCall(schemaName: string, index: IndexInfo): string {
+  const options: string[] = [`name: ${JSON.stringify(index.name)}`];
+  if (index.unique) options.push('unique: true');
+  if (index.sparse) options.push('sparse: true');
+  if (index.expireAfterSeconds !== undefined) options.push(`expireAfterSeconds: ${index.expireAfterSeconds}`);
+
+  const key = Object.entries(index.key)
+    .map(([path, direction]) => `${formatPropertyKey(path)}: ${JSON.stringify(direction)}`)
+    .join(', ');
+
+  return `${schemaName}.index({ ${key} }, { ${options.join(', ')} });`;
+}
+
+/**
+ * 컬렉션 스키마를 Mongoose 모델 모듈로 렌더링
+ * relations 중 이 컬렉션에서 출발하는 참조는 ref 옵션으로 표현
+ */
+export function renderMongooseSchema(collection: CollectionSchema, relations: Relation[] = []): string {
+  const schemaName = toMongooseSchemaName(collection.name);
+  const modelName = toPascalCase(collection.name);
+  const indexes = collection.indexes.filter((idx) => idx.name !== '_id_');
+
+  const root = buildFieldTree(collection.fields);
+  const topLevelFields = new Set(root.children.map((c) => unescapeKey(c.segment)));
+
+  const ctx: RenderContext = {
+    prefix: schemaName.replace(/Schema$/, ''),
+    declarations: [],
+    names: new Set([schemaName]),
+    fieldIndexes: new Map(),
+    refs: new Map(
+      relations.filter((r) => r.from === collection.name).map((r) => [r.path, toPascalCase(r.to)] as const)
+    ),
+  };
+
+  // 관찰된 최상위 필드의 단일 키 인덱스는 필드 옵션으로, 나머지는 schema.index()로 렌더링
+  const schemaIndexes: IndexInfo[] = [];
+  for (const index of indexes) {
+    const path = Object.keys(index.key)[0] ?? '';
+    if (isInlineIndex(index) && topLevelFields.has(path) && !ctx.fieldIndexes.has(path)) {
+      ctx.fieldIndexes.set(path, { unique: index.unique, sparse: index.sparse ?? false });
+    } else {
+      schemaIndexes.push(index);
+    }
+  }
+
+  const members = renderMembers(root.children, null, [], ctx);
+
+  // 관찰된 데이터에 __v가 없으면 버전 키 비활성화
+  const options = [`collection: ${JSON.stringify(collection.name)}`];
+  if (!collection.fields.some((f) => f.path === '__v')) {
+    options.push('versionKey: false');
+  }
+
+  const lines: string[] = [];
+  lines.push('// Generated by ExplainDB. Do not edit manually.');
+  lines.push("import { Schema, model } from 'mongoose';");
+  lines.push('');
+  lines.push(...ctx.declarations);
+
+  if (collection.summary) {
+    lines.push(...renderJsDoc(collection.summary, ''));
+  }
+  lines.push(`export const ${schemaName} = new Schema(`);
+  lines.push(`${INDENT}{`);
+  lines.push(...members);
+  lines.push(`${INDENT}},`);
+  lines.push(`${INDENT}{ ${options.join(', ')} }`);
+  lines.push(');');
+  lines.push('');
+
+  const indexCalls = schemaIndexes.map((idx) => renderIndexCall(schemaName, idx));
+  if (indexCalls.length > 0) {
+    lines.push(...indexCalls);
+    lines.push('');
+  }
+
+  lines.push(`export const ${modelName}Model = model(${JSON.stringify(modelName)}, ${schemaName});`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * 컬렉션별 Mongoose 모듈을 재노출하는 index.ts 렌더링
+ */
+export function renderMongooseIndex(collections: CollectionSchema[]): string {
+  const lines = ['// Generated by ExplainDB. Do not edit manually.'];
+
+  for (const collection of stableSort(collections, (c) => c.name)) {
+    lines.push(`export * from './${collection.name}';`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
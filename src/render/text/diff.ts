@@ -0,0 +1,67 @@
+import type { SchemaDiff } from '../../types/diff';
+import { formatFieldChange } from '../markdown/diff';
+
+type Row = [collection: string, change: string, target: string, details: string];
+
+const HEADER: Row = ['COLLECTION', 'CHANGE', 'TARGET', 'DETAILS'];
+
+/**
+ * 고정폭 컬럼으로 행 정렬
+ */
+function formatRows(rows: Row[]): string[] {
+  const widths = HEADER.map((_, col) => Math.max(...rows.map((row) => row[col]?.length ?? 0)));
+
+  return rows.map((row) =>
+    row
+      .map((cell, col) => (col === row.length - 1 ? cell : cell.padEnd(widths[col] ?? 0)))
+      .join('  ')
+      .trimEnd()
+  );
+}
+
+/**
+ * 스키마 diff를 터미널용 테이블로 렌더링
+ */
+export function renderSchemaDiffTable(diff: SchemaDiff): string {
+  const rows: Row[] = [];
+
+  for (const name of diff.addedCollections) {
+    rows.push([name, 'added', '(collection)', '']);
+  }
+  for (const name of diff.removedCollections) {
+    rows.push([name, 'removed', '(collection)', '']);
+  }
+
+  for (const collection of diff.collections) {
+    for (const path of collection.addedFields) {
+      rows.push([collection.name, 'added', path, '']);
+    }
+    for (const path of collection.removedFields) {
+      rows.push([collection.name, 'removed', path, '']);
+    }
+    for (const change of collection.changedFields) {
+      rows.push([collection.name, 'changed', change.path, formatFieldChange(change).join(', ')]);
+    }
+    for (const name of collection.indexes.added) {
+      rows.push([collection.name, 'added', `index ${name}`, '']);
+    }
+    for (const name of collection.indexes.removed) {
+      rows.push([collection.name, 'removed', `index ${name}`, '']);
+    }
+    for (const name of collection.indexes.changed) {
+      rows.push([collection.name, 'changed', `index ${name}`, '']);
+    }
+    for (const signature of collection.variants.added) {
+      rows.push([collection.name, 'added', `variant ${signature}`, '']);
+    }
+    for (const signature of collection.variants.removed) {
+      rows.push([collection.name, 'removed', `variant ${signature}`, '']);
+    }
+  }
+
+  if (rows.length === 0) {
+    return 'No schema changes detected.\n';
+  }
+
+  return formatRows([HEADER, ...rows]).join('\n') + '\n';
+}
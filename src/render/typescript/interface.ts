@@ -0,0 +1,338 @@
+/**
+ * TypeScript 인터페이스 렌더링
+ * buildFieldTree 구조를 기반으로 컬렉션별 .ts 파일 생성
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema, Variant } from '../../types/schema';
+import { escapeKey, splitPath, unescapeKey } from '../../core/flatten/escaping';
+import { MAP_WILDCARD } from '../../core/flatten/mapKeys';
+import { stableSort } from '../../utils/sort';
+import { buildFieldTree, type FieldTreeNode } from '../html/tree';
+import { getClosedEnumValues, getElementTypes, getObservedTypes, isRequiredField } from '../jsonschema/schema';
+
+const INDENT = '  ';
+
+/**
+ * BSON 타입별 TypeScript 타입 매핑
+ * mongodb 패키지에서 import가 필요한 타입은 import 이름과 함께 정의
+ */
+const BSON_TO_TS: Partial<Record<BsonType, { type: string; import?: string }>> = {
+  [BsonType.Double]: { type: 'number' },
+  [BsonType.Int]: { type: 'number' },
+  [BsonType.Long]: { type: 'number' },
+  [BsonType.Decimal]: { type: 'Decimal128', import: 'Decimal128' },
+  [BsonType.String]: { type: 'string' },
+  [BsonType.Symbol]: { type: 'string' },
+  [BsonType.Boolean]: { type: 'boolean' },
+  [BsonType.Null]: { type: 'null' },
+  [BsonType.Undefined]: { type: 'undefined' },
+  [BsonType.Date]: { type: 'Date' },
+  [BsonType.ObjectId]: { type: 'ObjectId', import: 'ObjectId' },
+  [BsonType.BinData]: { type: 'Binary', import: 'Binary' },
+  [BsonType.Timestamp]: { type: 'Timestamp', import: 'Timestamp' },
+  [BsonType.Regex]: { type: 'BSONRegExp', import: 'BSONRegExp' },
+  [BsonType.JavaScript]: { type: 'Code', import: 'Code' },
+  [BsonType.JavaScriptWithScope]: { type: 'Code', import: 'Code' },
+  [BsonType.DBPointer]: { type: 'DBRef', import: 'DBRef' },
+  [BsonType.MinKey]: { type: 'MinKey', import: 'MinKey' },
+  [BsonType.MaxKey]: { type: 'MaxKey', import: 'MaxKey' },
+};
+
+/**
+ * 이름을 PascalCase 식별자로 변환
+ * 예: user_sessions → UserSessions
+ */
+export function toPascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]?.toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+/**
+ * 컬렉션명을 인터페이스 이름으로 변환
+ * 예: user_sessions → UserSessionsDocument
+ */
+export function toTypeName(collectionName: string): string {
+  return `${toPascalCase(collectionName)}Document`;
+}
+
+/**
+ * 프로퍼티 키 포맷 (식별자가 아니면 따옴표 처리)
+ */
+export function formatPropertyKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * JSDoc 주석 렌더링
+ */
+export function renderJsDoc(text: string, indent: string): string[] {
+  const safe = text.replace(/\*\//g, '*\\/');
+  const lines = safe.split('\n');
+  if (lines.length === 1) {
+    return [`${indent}/** ${safe} */`];
+  }
+  return [`${indent}/**`, ...lines.map((line) => `${indent} * ${line}`), `${indent} */`];
+}
+
+/**
+ * TypeScript 렌더링 컨텍스트
+ */
+interface RenderContext {
+  imports: Set<string>; // mongodb에서 import할 타입
+  literals: Map<string, string[]>; // 필드 경로 → 문자열 리터럴 타입 (판별자)
+}
+
+/**
+ * 자식 노드들을 객체 리터럴 타입으로 렌더링
+ */
+function renderObjectLiteral(
+  children: FieldTreeNode[],
+  owner: FieldSchema | null,
+  depth: number,
+  ctx: RenderContext
+): string {
+  const members = renderMembers(children, owner, depth + 1, ctx);
+  return ['{', ...members, `${INDENT.repeat(depth)}}`].join('\n');
+}
+
+/**
+ * 스칼라 BSON 타입을 TypeScript 타입으로 렌더링 (필요한 import 수집)
+ */
+function renderScalarType(type: BsonType, ctx: RenderContext): string {
+  const mapped = BSON_TO_TS[type];
+  if (mapped?.import) {
+    ctx.imports.add(mapped.import);
+  }
+  return mapped?.type ?? 'unknown';
+}
+
+/**
+ * 하위 필드가 없는 배열의 요소 타입 렌더링 (요소 타입 분포가 없으면 unknown[])
+ */
+function renderScalarArrayType(field: FieldSchema, ctx: RenderContext): string {
+  const elements = new Set<string>();
+  for (const type of getElementTypes(field)) {
+    if (type === BsonType.Object) {
+      elements.add('Record<string, unknown>');
+    } else if (type === BsonType.Array) {
+      elements.add('unknown[]');
+    } else {
+      elements.add(renderScalarType(type, ctx));
+    }
+  }
+
+  if (elements.size === 0) return 'unknown[]';
+  const [single] = elements;
+  return elements.size === 1 ? `${single}[]` : `(${[...elements].join(' | ')})[]`;
+}
+
+/**
+ * 노드의 타입 표현식 렌더링
+ * 혼합 타입은 union, 배열은 T[], 하위 필드가 있는 객체/배열은 중첩 리터럴로 표현
+ */
+function renderNodeType(node: FieldTreeNode, owner: FieldSchema | null, depth: number, ctx: RenderContext): string {
+  const field = node.field;
+  const nearestOwner = field ?? owner;
+  const hasChildren = node.children.length > 0;
+
+  if (!field) {
+    return hasChildren ? renderObjectLiteral(node.children, nearestOwner, depth, ctx) : 'unknown';
+  }
+
+  const literals = ctx.literals.get(field.path);
+  if (literals) {
+    return literals.map((value) => JSON.stringify(value)).join(' | ');
+  }
+
+  // 관찰 값이 기록된 문자열 enum 후보는 리터럴 유니온으로 표현
+  const enumValues = getClosedEnumValues(field);
+  if (enumValues) {
+    const parts = enumValues.map((value) => JSON.stringify(value));
+    if (field.typeRatio[BsonType.Null] !== undefined) parts.push('null');
+    return parts.join(' | ');
+  }
+
+  const parts: string[] = [];
+  for (const type of getObservedTypes(field)) {
+    if (type === BsonType.Object) {
+      parts.push(hasChildren ? renderObjectLiteral(node.children, nearestOwner, depth, ctx) : 'Record<string, unknown>');
+    } else if (type === BsonType.Array) {
+      parts.push(
+        hasChildren ? `${renderObjectLiteral(node.children, nearestOwner, depth, ctx)}[]` : renderScalarArrayType(field, ctx)
+      );
+    } else {
+      parts.push(renderScalarType(type, ctx));
+    }
+  }
+
+  const unique = [...new Set(parts)];
+  return unique.length > 0 ? unique.join(' | ') : 'unknown';
+}
+
+/**
+ * 인터페이스/객체 리터럴 멤버 렌더링
+ */
+function renderMembers(
+  children: FieldTreeNode[],
+  owner: FieldSchema | null,
+  depth: number,
+  ctx: RenderContext
+): string[] {
+  const indent = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const child of stableSort(children, (c) => c.segment)) {
+    if (child.field?.description) {
+      lines.push(...renderJsDoc(child.field.description, indent));
+    }
+
+    // 동적 키 맵은 인덱스 시그니처로 표현
+    if (child.segment === MAP_WILDCARD) {
+      lines.push(`${indent}[key: string]: ${renderNodeType(child, owner, depth, ctx)};`);
+      continue;
+    }
+
+    const key = formatPropertyKey(unescapeKey(child.segment));
+    const optional = child.field ? !isRequiredField(child.field, owner) : false;
+    lines.push(`${indent}${key}${optional ? '?' : ''}: ${renderNodeType(child, owner, depth, ctx)};`);
+  }
+
+  return lines;
+}
+
+/**
+ * 판별자 값별로 변형 그룹화 (판별 유니온 대상)
+ * 같은 값의 여러 shape는 하나의 인터페이스로 병합
+ */
+function groupDiscriminatedVariants(collection: CollectionSchema): Map<string, Variant[]> {
+  const groups = new Map<string, Variant[]>();
+  if (!collection.discriminator) return groups;
+
+  for (const variant of collection.variants) {
+    const [value] = variant.discriminatorValues ?? [];
+    if (value === undefined) continue;
+    groups.set(value, [...(groups.get(value) ?? []), variant]);
+  }
+
+  return groups.size >= 2 ? groups : new Map();
+}
+
+/**
+ * 필드 경로를 변형 shape 경로 형식으로 변환 (언이스케이핑, [*] 제외)
+ */
+function toShapePath(path: string): string {
+  return splitPath(path)
+    .filter((segment) => segment !== '[*]' && segment !== MAP_WILDCARD)
+    .map(unescapeKey)
+    .join('.');
+}
+
+/**
+ * 변형 그룹에 속한 필드만 선택
+ * 그룹의 모든 shape에 있는 필드는 required, 일부 shape에만 있는 필드는 optional로 처리
+ */
+function selectVariantFields(fields: FieldSchema[], variants: Variant[]): FieldSchema[] {
+  return fields.flatMap((field) => {
+    const path = toShapePath(field.path);
+    const covering = variants.filter((v) => v.paths.some((p) => p === path || p.startsWith(`${path}.`)));
+
+    if (covering.length > 0) {
+      return [{ ...field, optional: covering.length < variants.length }];
+    }
+    // shape 깊이보다 깊은 필드는 전체 통계의 optional 판단 유지
+    if (variants.some((v) => v.paths.some((p) => path.startsWith(`${p}.`)))) {
+      return [field];
+    }
+    return [];
+  });
+}
+
+/**
+ * 변형 인터페이스 이름 생성
+ * 예: events + click → EventsClickDocument
+ */
+function toVariantTypeName(collectionName: string, value: string, index: number, used: Set<string>): string {
+  let name = toTypeName(`${collectionName}_${value}`);
+  if (used.has(name)) {
+    name = toTypeName(`${collectionName}_variant_${index + 1}`);
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * 인터페이스 선언 렌더링
+ */
+function renderInterface(name: string, fields: FieldSchema[], ctx: RenderContext): string[] {
+  const root = buildFieldTree(fields);
+  return [`export interface ${name} {`, ...renderMembers(root.children, null, 1, ctx), '}'];
+}
+
+/**
+ * 컬렉션 스키마를 TypeScript 모듈로 렌더링
+ * 판별자가 있으면 변형별 인터페이스와 판별 유니온 타입으로 렌더링
+ */
+export function renderTypeScript(collection: CollectionSchema): string {
+  const ctx: RenderContext = { imports: new Set(), literals: new Map() };
+  const typeName = toTypeName(collection.name);
+  const groups = groupDiscriminatedVariants(collection);
+  const declarations: string[] = [];
+
+  if (collection.discriminator && groups.size > 0) {
+    const discriminatorPath = escapeKey(collection.discriminator);
+    const used = new Set([typeName]);
+    const variantNames: string[] = [];
+
+    [...groups].forEach(([value, variants], index) => {
+      const name = toVariantTypeName(collection.name, value, index, used);
+      ctx.literals.set(discriminatorPath, [value]);
+
+      declarations.push(...renderJsDoc(`${collection.discriminator} = ${value}`, ''));
+      declarations.push(...renderInterface(name, selectVariantFields(collection.fields, variants), ctx));
+      declarations.push('');
+      variantNames.push(name);
+    });
+
+    if (collection.summary) {
+      declarations.push(...renderJsDoc(collection.summary, ''));
+    }
+    declarations.push(`export type ${typeName} = ${variantNames.join(' | ')};`);
+  } else {
+    if (collection.summary) {
+      declarations.push(...renderJsDoc(collection.summary, ''));
+    }
+    declarations.push(...renderInterface(typeName, collection.fields, ctx));
+  }
+
+  const lines: string[] = [];
+  lines.push('// Generated by ExplainDB. Do not edit manually.');
+
+  if (ctx.imports.size > 0) {
+    const imports = [...ctx.imports].sort().join(', ');
+    lines.push(`import type { ${imports} } from 'mongodb';`);
+  }
+  lines.push('');
+  lines.push(...declarations);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * 컬렉션별 타입 파일을 재노출하는 index.ts 렌더링
+ */
+export function renderTypeScriptIndex(collections: CollectionSchema[]): string {
+  const lines = ['// Generated by ExplainDB. Do not edit manually.'];
+
+  for (const collection of stableSort(collections, (c) => c.name)) {
+    lines.push(`export * from './${collection.name}';`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,158 @@
+/**
+ * MongoDB $jsonSchema validator 렌더링
+ * collMod 명령으로 바로 적용할 수 있는 형태로 생성
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema } from '../../types/schema';
+import { isNumericType } from '../../core/infer/analyzer';
+import { stableSort } from '../../utils/sort';
+import { buildPathTree, getObservedTypes, isRequiredField, type PathNode } from '../jsonschema/schema';
+
+export type ValidatorStrictness = 'strict' | 'moderate' | 'loose';
+
+export interface ValidatorOptions {
+  requireFields: boolean; // optional이 아닌 필드를 required로 지정
+  allowMixedTypes: boolean; // 관찰된 모든 타입 허용 (false면 주 타입 + null만 허용)
+  additionalProperties: boolean; // 관찰되지 않은 필드 허용
+}
+
+/**
+ * 엄격도별 validator 옵션 프리셋
+ */
+export const VALIDATOR_PRESETS: Record<ValidatorStrictness, ValidatorOptions> = {
+  strict: { requireFields: true, allowMixedTypes: false, additionalProperties: false },
+  moderate: { requireFields: true, allowMixedTypes: true, additionalProperties: true },
+  loose: { requireFields: false, allowMixedTypes: true, additionalProperties: true },
+};
+
+/**
+ * MongoDB $jsonSchema 노드 (bsonType 기반)
+ */
+export interface MongoJsonSchema {
+  bsonType?: string | string[];
+  description?: string;
+  properties?: Record<string, MongoJsonSchema>;
+  required?: string[];
+  items?: MongoJsonSchema;
+  additionalProperties?: boolean | MongoJsonSchema;
+}
+
+/**
+ * collMod 명령
+ */
+export interface CollModCommand {
+  collMod: string;
+  validator: { $jsonSchema: MongoJsonSchema };
+  validationLevel: 'strict' | 'moderate';
+  validationAction: 'error' | 'warn';
+}
+
+/**
+ * 필드에 허용할 bsonType 목록 계산
+ * 드라이버가 double 5.0을 정수로 디코딩하므로 숫자형은 'number' 별칭으로 통합
+ */
+function resolveBsonTypes(field: FieldSchema, options: ValidatorOptions): string[] {
+  let types: BsonType[] = getObservedTypes(field).filter((t) => t !== BsonType.Undefined);
+
+  if (!options.allowMixedTypes) {
+    const primary = types.find((t) => t !== BsonType.Null);
+    const nullable = types.includes(BsonType.Null);
+    types = [...(primary ? [primary] : []), ...(nullable ? [BsonType.Null] : [])];
+  }
+
+  return [...new Set(types.map((t) => (isNumericType(t) ? 'number' : t)))];
+}
+
+/**
+ * 경로 트리 노드를 $jsonSchema로 변환
+ */
+function buildNode(node: PathNode, owner: FieldSchema | null, options: ValidatorOptions): MongoJsonSchema {
+  const schema: MongoJsonSchema = {};
+
+  if (node.field) {
+    const types = resolveBsonTypes(node.field, options);
+    if (types.length > 0) {
+      schema.bsonType = types.length === 1 ? types[0] : types;
+    }
+    if (node.field.description) {
+      schema.description = node.field.description;
+    }
+  } else if (node.properties.size > 0 || node.values) {
+    schema.bsonType = 'object';
+  }
+
+  const nearestOwner = node.field ?? owner;
+  Object.assign(schema, buildMembers(node, nearestOwner, options));
+
+  if (node.items) {
+    schema.items = buildNode(node.items, nearestOwner, options);
+  }
+
+  return schema;
+}
+
+/**
+ * 노드의 properties/required/additionalProperties 생성
+ */
+function buildMembers(node: PathNode, owner: FieldSchema | null, options: ValidatorOptions): MongoJsonSchema {
+  // 동적 키 맵은 임의 키를 허용하고 값 스키마만 검증
+  if (node.values) {
+    return { additionalProperties: buildNode(node.values, owner, options) };
+  }
+  if (node.properties.size === 0) return {};
+
+  const properties: Record<string, MongoJsonSchema> = {};
+  const required: string[] = [];
+
+  for (const key of stableSort([...node.properties.keys()], (k) => k)) {
+    const child = node.properties.get(key);
+    if (!child) continue;
+
+    properties[key] = buildNode(child, owner, options);
+    if (options.requireFields && child.field && isRequiredField(child.field, owner)) {
+      required.push(key);
+    }
+  }
+
+  const members: MongoJsonSchema = { properties };
+  if (required.length > 0) {
+    members.required = required;
+  }
+  if (!options.additionalProperties) {
+    members.additionalProperties = false;
+  }
+
+  return members;
+}
+
+/**
+ * 컬렉션 스키마로부터 $jsonSchema 생성
+ */
+export function renderValidatorSchema(
+  collection: CollectionSchema,
+  options: ValidatorOptions = VALIDATOR_PRESETS.moderate
+): MongoJsonSchema {
+  const root = buildPathTree(collection.fields);
+
+  return {
+    bsonType: 'object',
+    ...buildMembers(root, null, options),
+  };
+}
+
+/**
+ * collMod 명령 렌더링
+ * 기존 문서에 영향이 없도록 validationLevel=moderate, validationAction=warn으로 시작
+ */
+export function renderCollMod(
+  collection: CollectionSchema,
+  options: ValidatorOptions = VALIDATOR_PRESETS.moderate
+): CollModCommand {
+  return {
+    collMod: collection.name,
+    validator: { $jsonSchema: renderValidatorSchema(collection, options) },
+    validationLevel: 'moderate',
+    validationAction: 'warn',
+  };
+}
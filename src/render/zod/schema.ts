@@ -0,0 +1,227 @@
+/**
+ * Zod 스키마 렌더링
+ * 서비스 경계에서 MongoDB 문서를 런타임 검증하기 위한 컬렉션별 .ts 모듈 생성
+ */
+
+import { BsonType } from '../../types/bson';
+import type { CollectionSchema, FieldSchema } from '../../types/schema';
+import { unescapeKey } from '../../core/flatten/escaping';
+import { MAP_WILDCARD } from '../../core/flatten/mapKeys';
+import { stableSort } from '../../utils/sort';
+import { buildFieldTree, type FieldTreeNode } from '../html/tree';
+import { getElementTypes, getObservedTypes, isRequiredField } from '../jsonschema/schema';
+import { formatPropertyKey, toTypeName } from '../typescript/interface';
+
+const INDENT = '  ';
+
+/**
+ * BSON 타입별 Zod 표현식 매핑
+ * 드라이버 클래스로 디코딩되는 타입은 z.instanceof로 검증하고 import 이름을 함께 정의
+ */
+const BSON_TO_ZOD: Partial<Record<BsonType, { expr: string; import?: string }>> = {
+  [BsonType.Double]: { expr: 'z.number()' },
+  [BsonType.Int]: { expr: 'z.number()' },
+  [BsonType.Long]: { expr: 'z.number()' },
+  [BsonType.Decimal]: { expr: 'z.instanceof(Decimal128)', import: 'Decimal128' },
+  [BsonType.String]: { expr: 'z.string()' },
+  [BsonType.Symbol]: { expr: 'z.string()' },
+  [BsonType.Boolean]: { expr: 'z.boolean()' },
+  [BsonType.Undefined]: { expr: 'z.undefined()' },
+  [BsonType.Date]: { expr: 'z.date()' },
+  [BsonType.ObjectId]: { expr: 'z.instanceof(ObjectId)', import: 'ObjectId' },
+  [BsonType.BinData]: { expr: 'z.instanceof(Binary)', import: 'Binary' },
+  [BsonType.Timestamp]: { expr: 'z.instanceof(Timestamp)', import: 'Timestamp' },
+  [BsonType.Regex]: { expr: 'z.instanceof(BSONRegExp)', import: 'BSONRegExp' },
+  [BsonType.JavaScript]: { expr: 'z.instanceof(Code)', import: 'Code' },
+  [BsonType.JavaScriptWithScope]: { expr: 'z.instanceof(Code)', import: 'Code' },
+  [BsonType.DBPointer]: { expr: 'z.instanceof(DBRef)', import: 'DBRef' },
+  [BsonType.MinKey]: { expr: 'z.instanceof(MinKey)', import: 'MinKey' },
+  [BsonType.MaxKey]: { expr: 'z.instanceof(MaxKey)', import: 'MaxKey' },
+};
+
+/**
+ * Zod 렌더링 컨텍스트 (mongodb import 수집)
+ */
+interface RenderContext {
+  imports: Set<string>;
+}
+
+/**
+ * 컬렉션명을 스키마 상수 이름으로 변환
+ * 예: user_sessions → userSessionsDocumentSchema
+ */
+export function toSchemaName(collectionName: string): string {
+  const typeName = toTypeName(collectionName);
+  return `${typeName[0]?.toLowerCase() ?? ''}${typeName.slice(1)}Schema`;
+}
+
+/**
+ * 자식 노드들을 z.object 표현식으로 렌더링
+ * 동적 키 맵({*})은 z.record, 다른 필드와 함께 있으면 .catchall()로 표현
+ */
+function renderObject(children: FieldTreeNode[], owner: FieldSchema | null, depth: number, ctx: RenderContext): string {
+  const mapChild = children.find((c) => c.segment === MAP_WILDCARD);
+  const fields = children.filter((c) => c !== mapChild);
+  const values = mapChild ? renderNodeSchema(mapChild, owner, depth, ctx) : null;
+
+  if (values && fields.length === 0) {
+    return `z.record(z.string(), ${values})`;
+  }
+
+  const members = renderMembers(fields, owner, depth + 1, ctx);
+  const object = ['z.object({', ...members, `${INDENT.repeat(depth)}})`].join('\n');
+  return values ? `${object}.catchall(${values})` : object;
+}
+
+/**
+ * 스칼라 BSON 타입을 Zod 표현식으로 렌더링 (필요한 import 수집)
+ */
+function renderScalarSchema(type: BsonType, ctx: RenderContext): string {
+  const mapped = BSON_TO_ZOD[type];
+  if (mapped?.import) {
+    ctx.imports.add(mapped.import);
+  }
+  return mapped?.expr ?? 'z.unknown()';
+}
+
+/**
+ * 하위 필드가 없는 배열의 요소 Zod 표현식 렌더링 (요소 타입 분포가 없으면 z.unknown())
+ */
+function renderScalarItems(field: FieldSchema, ctx: RenderContext): string {
+  const items = new Set<string>();
+  for (const type of getElementTypes(field)) {
+    if (type === BsonType.Null) {
+      items.add('z.null()');
+    } else if (type === BsonType.Object) {
+      items.add('z.record(z.string(), z.unknown())');
+    } else if (type === BsonType.Array) {
+      items.add('z.array(z.unknown())');
+    } else {
+      items.add(renderScalarSchema(type, ctx));
+    }
+  }
+
+  if (items.size === 0) return 'z.unknown()';
+  const [single] = items;
+  return items.size === 1 ? (single as string) : `z.union([${[...items].join(', ')}])`;
+}
+
+/**
+ * 노드의 Zod 표현식 렌더링
+ * 혼합 타입은 z.union, Null은 .nullable(), 하위 필드가 있는 객체/배열은 중첩 z.object로 표현
+ */
+function renderNodeSchema(node: FieldTreeNode, owner: FieldSchema | null, depth: number, ctx: RenderContext): string {
+  const field = node.field;
+  const nearestOwner = field ?? owner;
+  const hasChildren = node.children.length > 0;
+
+  if (!field) {
+    return hasChildren ? renderObject(node.children, nearestOwner, depth, ctx) : 'z.unknown()';
+  }
+
+  const types = getObservedTypes(field);
+  const nullable = types.includes(BsonType.Null);
+  const parts: string[] = [];
+
+  for (const type of types) {
+    if (type === BsonType.Null) continue;
+
+    if (type === BsonType.Object) {
+      parts.push(
+        hasChildren ? renderObject(node.children, nearestOwner, depth, ctx) : 'z.record(z.string(), z.unknown())'
+      );
+    } else if (type === BsonType.Array) {
+      const items = hasChildren ? renderObject(node.children, nearestOwner, depth, ctx) : renderScalarItems(field, ctx);
+      parts.push(`z.array(${items})`);
+    } else {
+      parts.push(renderScalarSchema(type, ctx));
+    }
+  }
+
+  const unique = [...new Set(parts)];
+  let schema: string;
+  if (unique.length === 0) {
+    schema = nullable ? 'z.null()' : 'z.unknown()';
+  } else {
+    schema = unique.length === 1 ? (unique[0] as string) : `z.union([${unique.join(', ')}])`;
+    if (nullable) {
+      schema += '.nullable()';
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * z.object 멤버 렌더링
+ */
+function renderMembers(
+  children: FieldTreeNode[],
+  owner: FieldSchema | null,
+  depth: number,
+  ctx: RenderContext
+): string[] {
+  const indent = INDENT.repeat(depth);
+  const lines: string[] = [];
+
+  for (const child of stableSort(children, (c) => c.segment)) {
+    const key = formatPropertyKey(unescapeKey(child.segment));
+    let schema = renderNodeSchema(child, owner, depth, ctx);
+
+    if (child.field && !isRequiredField(child.field, owner)) {
+      schema += '.optional()';
+    }
+    if (child.field?.description) {
+      schema += `.describe(${JSON.stringify(child.field.description)})`;
+    }
+    lines.push(`${indent}${key}: ${schema},`);
+  }
+
+  return lines;
+}
+
+/**
+ * 컬렉션 스키마를 Zod 스키마 모듈로 렌더링
+ */
+export function renderZodSchema(collection: CollectionSchema): string {
+  const ctx: RenderContext = { imports: new Set() };
+  const root = buildFieldTree(collection.fields);
+  const members = renderMembers(root.children, null, 1, ctx);
+  const typeName = toTypeName(collection.name);
+  const schemaName = toSchemaName(collection.name);
+
+  const lines: string[] = [];
+  lines.push('// Generated by ExplainDB. Do not edit manually.');
+  lines.push("import { z } from 'zod';");
+
+  if (ctx.imports.size > 0) {
+    const imports = [...ctx.imports].sort().join(', ');
+    lines.push(`import { ${imports} } from 'mongodb';`);
+  }
+  lines.push('');
+
+  let schema = ['z.object({', ...members, '})'].join('\n');
+  if (collection.summary) {
+    schema += `.describe(${JSON.stringify(collection.summary)})`;
+  }
+  lines.push(`export const ${schemaName} = ${schema};`);
+  lines.push('');
+  lines.push(`export type ${typeName} = z.infer<typeof ${schemaName}>;`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * 컬렉션별 Zod 모듈을 재노출하는 index.ts 렌더링
+ */
+export function renderZodIndex(collections: CollectionSchema[]): string {
+  const lines = ['// Generated by ExplainDB. Do not edit manually.'];
+
+  for (const collection of stableSort(collections, (c) => c.name)) {
+    lines.push(`export * from './${collection.name}';`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
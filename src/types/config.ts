@@ -21,6 +21,12 @@ export const CLIOptionsSchema = z.object({
   timeWindowDays: z.number().int().positive().optional(),
   match: z.string().optional(),
   samplingStrict: z.boolean().default(false),
+  samplingStrategy: z.enum(['random', 'stratified']).default('random'),
+  samplingBuckets: z.number().int().positive().default(5), // stratified 전략 구간 수
+  adaptiveSampling: z.boolean().default(false), // sampleSize 단위 배치로 스키마가 수렴할 때까지 샘플링
+  maxSampleSize: z.number().int().positive().default(1000),
+  convergenceTolerance: z.number().min(0).max(1).default(0.02),
+  exact: z.boolean().default(false), // 샘플에서 발견한 path의 존재 여부/타입 분포를 전체 컬렉션 집계로 계산
 
   // Flatten 제한
   maxDepth: z.number().int().positive().default(20),
@@ -45,6 +51,14 @@ export const CLIOptionsSchema = z.object({
   llmCache: z.enum(['on', 'off']).default('on'),
   llmMaxFields: z.number().int().positive().optional(),
 
+  // 추가 산출물 (artifacts/ 하위에 생성)
+  emit: z.array(z.enum(['jsonschema', 'validator', 'typescript', 'zod', 'mongoose'])).default([]),
+  validatorStrictness: z.enum(['strict', 'moderate', 'loose']).default('moderate'),
+  validatorDryRun: z.boolean().default(false), // 기존 문서 중 validator 위반 수 계산
+
+  // 관계 분석 (name: 필드명 패턴만 사용, verify: 샘플 값을 대상 _id와 대조)
+  relations: z.enum(['name', 'verify']).default('name'),
+
   // 동시성
   concurrency: z.number().int().positive().default(10),
 
@@ -53,12 +67,65 @@ export const CLIOptionsSchema = z.object({
   force: z.boolean().default(false),
   pruneRemovedCollections: z.enum(['on', 'off']).default('on'),
 
+  // 스키마 이력 (이전 schema.json 보관 및 CHANGELOG.md 갱신)
+  history: z.enum(['on', 'off']).default('off'),
+
   // 로깅
   verbose: z.boolean().default(false),
 });
 
 export type CLIOptions = z.infer<typeof CLIOptionsSchema>;
 
+/**
+ * diff 명령 옵션 스키마
+ */
+export const DiffOptionsSchema = z.object({
+  base: z.string(),
+  head: z.string(),
+  format: z.enum(['markdown', 'json', 'table']).default('table'),
+  out: z.string().optional(),
+  ratioThreshold: z.number().min(0).max(1).default(0.05),
+  verbose: z.boolean().default(false),
+});
+
+export type DiffOptions = z.infer<typeof DiffOptionsSchema>;
+
+/**
+ * 스키마 계약 규칙 스키마 (--rules 파일)
+ * 같은 규칙에 여러 항목이 매칭되면 마지막 항목이 우선
+ */
+export const ContractRuleSchema = z.object({
+  rule: z.enum(['required-became-optional', 'new-mixed-type', 'collection-removed', 'new-pii-hint']),
+  severity: z.enum(['error', 'warn', 'off']),
+  collection: z.string().optional(), // glob, 생략 시 전체
+  path: z.string().optional(), // glob, 생략 시 전체
+});
+
+export const ContractConfigSchema = z.object({
+  rules: z.array(ContractRuleSchema).default([]),
+});
+
+export type ContractRule = z.infer<typeof ContractRuleSchema>;
+export type ContractConfig = z.infer<typeof ContractConfigSchema>;
+
+/**
+ * check 명령 옵션 (run 옵션 + 계약 검사 옵션)
+ */
+export const CheckOptionsSchema = CLIOptionsSchema.extend({
+  baseline: z.string().optional(), // 기본값: {out}/{db}/artifacts/schema.json
+  rules: z.string().optional(),
+});
+
+export type CheckOptions = z.infer<typeof CheckOptionsSchema>;
+
+/**
+ * 파싱된 CLI 명령
+ */
+export type ParsedCommand =
+  | { command: 'run'; options: CLIOptions }
+  | { command: 'diff'; options: DiffOptions }
+  | { command: 'check'; options: CheckOptions };
+
 /**
  * 검증되고 해석된 설정
  */
@@ -67,6 +134,14 @@ export interface ResolvedConfig extends CLIOptions {
   db: string;
 }
 
+/**
+ * 검증되고 해석된 check 설정
+ */
+export interface ResolvedCheckConfig extends CheckOptions {
+  uri: string;
+  db: string;
+}
+
 /**
  * 환경 변수 이름
  */
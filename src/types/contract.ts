@@ -0,0 +1,15 @@
+import type { ContractRule } from './config';
+
+export type ContractRuleId = ContractRule['rule'];
+export type ContractSeverity = ContractRule['severity'];
+
+/**
+ * 스키마 계약 위반 항목
+ */
+export interface ContractViolation {
+  rule: ContractRuleId;
+  severity: Exclude<ContractSeverity, 'off'>;
+  collection: string;
+  path?: string;
+  message: string;
+}
@@ -0,0 +1,77 @@
+import type { BsonType } from './bson';
+
+/**
+ * 타입 비율 변화
+ */
+export interface TypeRatioShift {
+  type: BsonType;
+  before: number;
+  after: number;
+}
+
+/**
+ * 두 실행 간 값 변화
+ */
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * 필드 변경 사항
+ */
+export interface FieldChange {
+  path: string;
+  typeShifts: TypeRatioShift[];
+  presentRatio?: ValueChange<number>;
+  optional?: ValueChange<boolean>;
+}
+
+/**
+ * 인덱스 변경 사항 (이름 기준 비교)
+ */
+export interface IndexChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * 변종 변경 사항 (signature 기준 비교)
+ */
+export interface VariantChanges {
+  added: string[];
+  removed: string[];
+  labels: Record<string, string>; // signature → 판별자 값 또는 주 변종 대비 차이 path 설명
+}
+
+/**
+ * 컬렉션 단위 변경 사항
+ */
+export interface CollectionDiff {
+  name: string;
+  addedFields: string[];
+  removedFields: string[];
+  changedFields: FieldChange[];
+  indexes: IndexChanges;
+  variants: VariantChanges;
+}
+
+/**
+ * 비교 대상 schema.json 식별 정보
+ */
+export interface SchemaDiffSide {
+  database: string;
+  generatedAt: string;
+}
+
+/**
+ * 두 schema.json 비교 결과
+ */
+export interface SchemaDiff {
+  base: SchemaDiffSide;
+  head: SchemaDiffSide;
+  addedCollections: string[];
+  removedCollections: string[];
+  collections: CollectionDiff[];
+}
@@ -1,3 +1,6 @@
 export * from './bson';
 export * from './config';
 export * from './schema';
+export * from './diff';
+export * from './contract';
+export * from './relation';
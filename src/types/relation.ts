@@ -0,0 +1,51 @@
+import type { BsonType } from './bson';
+
+/**
+ * 컬렉션 간 참조 관계 (필드명 패턴으로 추론)
+ */
+export interface Relation {
+  from: string; // 참조하는 컬렉션
+  path: string; // 참조 필드 경로
+  to: string; // 참조 대상 컬렉션
+  cardinality?: RelationCardinality; // 값 검증을 거친 경우에만 존재
+}
+
+/**
+ * 참조 관계 카디널리티 (대상 컬렉션 기준)
+ * 1:1 - 대상 문서 하나를 한 문서만 참조
+ * 1:N - 대상 문서 하나를 여러 문서가 참조
+ * N:M - 배열을 통해 여러 대상을 참조
+ */
+export type RelationCardinality = '1:1' | '1:N' | 'N:M';
+
+/**
+ * 값 중복 검증을 거친 참조 관계
+ */
+export interface VerifiedRelation extends Relation {
+  cardinality: RelationCardinality;
+  sampledValues: number; // 검증에 사용한 고유 값 수
+  matchRate: number; // 대상 컬렉션 _id와 일치한 비율
+  confidence: number; // 0-1 신뢰도
+}
+
+/**
+ * 참조 후보 필드에서 수집한 샘플 값
+ */
+export interface ReferenceSample {
+  path: string;
+  valueType: BsonType; // objectId, binData(UUID), string(UUID)
+  values: unknown[]; // 고유 값 (상한 적용)
+  distinctCount: number; // 상한과 무관한 전체 고유 값 수
+  occurrences: number; // 전체 값 출현 수
+  viaArray: boolean; // 배열을 거쳐 참조하는지 여부
+}
+
+/**
+ * 컬렉션의 _id 중 주어진 값과 일치하는 문서 수 조회
+ */
+export type IdLookup = (collection: string, ids: unknown[]) => Promise<number>;
+
+/**
+ * 컬렉션의 path 값 중 두 문서 이상에 나타나는 값이 있는지 조회 (1:1 판정용)
+ */
+export type DuplicateLookup = (collection: string, path: string, values: unknown[]) => Promise<boolean>;
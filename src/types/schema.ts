@@ -1,3 +1,4 @@
+import type { VerifiedRelation } from './relation';
 import type { BsonType } from './bson';
 
 /**
@@ -18,7 +19,17 @@ export interface CollectionMeta {
   name: string;
   estimatedCount: number;
   indexes: IndexInfo[];
-  fingerprint: string;
+  fingerprint: string; // 인덱스 정의 해시
+  dataFingerprint: string; // estimatedCount, max _id, collStats size 해시
+}
+
+/**
+ * 증분 실행 시 변경 여부 판단에 사용하는 컬렉션 fingerprint
+ */
+export interface CollectionFingerprint {
+  indexes: string;
+  data: string;
+  options: string; // 샘플링/추론 옵션 해시
 }
 
 /**
@@ -35,8 +46,18 @@ export interface ScanResult {
 export interface SampleResult {
   documents: Record<string, unknown>[];
   actualSize: number;
-  strategy: 'random' | 'time-window' | 'filtered';
+  strategy: 'random' | 'time-window' | 'filtered' | 'stratified';
   fallback: boolean;
+  buckets?: SampleBucket[]; // stratified 전략의 구간별 샘플 수
+}
+
+/**
+ * stratified 샘플링 구간
+ */
+export interface SampleBucket {
+  start: string;
+  end: string;
+  count: number;
 }
 
 /**
@@ -63,8 +84,14 @@ export interface PathValue {
 export interface FlattenResult {
   paths: Map<string, PathValue[]>;
   truncationCounters: TruncationCounters;
+  mapKeys?: Map<string, MapKeyPattern>; // 동적 키 맵 path → 키 패턴
 }
 
+/**
+ * 동적 키 맵의 키 패턴
+ */
+export type MapKeyPattern = 'date' | 'objectId' | 'uuid' | 'number';
+
 /**
  * 민감정보가 제거된 예제 값
  */
@@ -81,6 +108,106 @@ export interface FieldStats {
   min: number;
   max: number;
   avg: number;
+  p50?: number;
+  p90?: number;
+  p99?: number;
+  stdDev?: number;
+  zeroCount?: number;
+  negativeCount?: number;
+  histogram?: number[]; // min~max를 같은 폭으로 나눈 구간별 값 수
+}
+
+/**
+ * 비율 신뢰구간 (95% Wilson score)
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * 필드 카디널리티 (HyperLogLog 추정)
+ */
+export interface FieldCardinality {
+  distinct: number; // 추정 고유 값 수 (객체/배열 값 제외)
+  uniqueRatio: number; // distinct / 스칼라 값 수
+  lowCardinality: boolean; // 고유 값이 적어 enum일 가능성이 높음
+  keyCandidate?: boolean; // 항상 존재하고 고유하지만 unique 인덱스가 없음
+}
+
+/**
+ * 문자열 값에서 감지하는 형식
+ */
+export type StringFormat = 'json' | 'uuid' | 'object-id' | 'iso-date' | 'numeric' | 'email' | 'url' | 'base64';
+
+/**
+ * 문자열 필드 프로필
+ */
+export interface StringProfile {
+  minLength: number;
+  avgLength: number;
+  maxLength: number;
+  emptyRatio: number; // 빈 문자열 비율
+  whitespaceRatio: number; // 공백으로만 이루어진 문자열 비율
+  nonAsciiRatio: number; // ASCII 외 문자를 포함한 문자열 비율
+  formats: Partial<Record<StringFormat, number>>; // 형식별 비율 (절반 이상인 형식만)
+}
+
+/**
+ * 날짜 필드 프로필
+ */
+export interface DateProfile {
+  earliest: string; // ISO 문자열 (PII 필드나 redact all이면 월 단위 YYYY-MM)
+  latest: string;
+  futureCount: number; // 분석 시점보다 미래인 값 수
+  epochCount: number; // 1970-01-01 (epoch 0 sentinel) 값 수
+  midnightRatio: number; // UTC 자정 정각인 값 비율
+  hourCounts: number[]; // UTC 시(0~23)별 값 수
+  dateOnlyOffset?: number; // 대부분 같은 정각이면 그 시각이 자정이 되는 UTC 오프셋 (시간, 0은 UTC 자정)
+}
+
+/**
+ * 배열 필드 프로필
+ */
+export interface ArrayProfile {
+  minLength: number;
+  avgLength: number;
+  maxLength: number;
+  p95Length: number;
+  emptyRatio: number; // 빈 배열 비율
+  unbounded: boolean; // p95 길이가 커서 계속 커지는 배열로 의심
+  tuple?: BsonType[]; // 고정 길이 튜플 형태이면 위치별 타입 (예: [lng, lat])
+}
+
+/**
+ * enum 후보 필드의 관찰 값과 빈도
+ */
+export interface EnumValue {
+  value: string | number;
+  count: number;
+}
+
+/**
+ * 전체 스캔으로 계산한 path 통계
+ */
+export interface ExactPathStats {
+  presentCount: number;
+  typeCounts: Partial<Record<BsonType, number>>;
+}
+
+/**
+ * 시간 구간별 필드 출현 추이
+ */
+export type FieldTrend = 'stable' | 'new' | 'deprecated' | 'growing' | 'declining';
+
+/**
+ * 필드 시간 추이 (문서 생성 시각 기준)
+ */
+export interface FieldTimeline {
+  firstSeen: string; // 필드가 관찰된 가장 오래된 문서 시각
+  lastSeen: string; // 필드가 관찰된 가장 최근 문서 시각
+  presentRatios: number[]; // 구간별 presentRatio (CollectionTimeline.buckets 순서)
+  trend: FieldTrend;
 }
 
 /**
@@ -99,6 +226,18 @@ export interface FieldSchema {
   mixedType: boolean;
   hints: string[];
   description?: string;
+  timeline?: FieldTimeline;
+  presentInterval?: ConfidenceInterval; // presentRatio 신뢰구간
+  typeIntervals?: Partial<Record<BsonType, ConfidenceInterval>>; // typeRatio 항목별 신뢰구간
+  uncertain?: boolean; // presentInterval이 optionalThreshold에 걸쳐 optional 판단이 불확실
+  exact?: boolean; // --exact 사용 시 true: 전체 스캔 통계, false: 샘플 추정치
+  cardinality?: FieldCardinality;
+  enumValues?: EnumValue[]; // 카디널리티가 낮은 필드의 관찰 값 (빈도 내림차순)
+  stringProfile?: StringProfile;
+  dateProfile?: DateProfile;
+  arrayProfile?: ArrayProfile;
+  elementTypes?: Partial<Record<BsonType, number>>; // 배열 필드의 요소 타입 비율
+  mapKeys?: MapKeyPattern; // 동적 키 맵이면 키 패턴 (하위 필드는 {*} segment로 합쳐짐)
 }
 
 /**
@@ -118,6 +257,33 @@ export interface Variant {
   ratio: number;
   paths: string[];
   diff: VariantDiff;
+  discriminatorValues?: string[]; // 판별자 필드 값 (컬렉션에 discriminator가 있을 때)
+}
+
+/**
+ * 시간 구간 (샘플 문서 수가 균등하도록 분할)
+ */
+export interface TimeBucket {
+  start: string;
+  end: string;
+  count: number;
+}
+
+/**
+ * 컬렉션 시간 구간 정보
+ */
+export interface CollectionTimeline {
+  field: string; // 문서 시각 기준 필드 (_id 또는 --time-field)
+  buckets: TimeBucket[];
+}
+
+/**
+ * 적응형 샘플링 수렴 정보
+ */
+export interface SamplingConvergence {
+  batches: number;
+  score: number; // 0~1, 마지막 배치의 새 경로 비율과 presentRatio 변화량 기반
+  converged: boolean; // false면 최대 샘플 수에 도달하여 중단
 }
 
 /**
@@ -130,8 +296,13 @@ export interface CollectionSchema {
   indexes: IndexInfo[];
   fields: FieldSchema[];
   variants: Variant[];
+  discriminator?: string; // 변형을 구분하는 판별자 필드 (예: type, kind)
   warnings: string[];
   summary?: string;
+  fingerprint?: CollectionFingerprint;
+  removedAt?: string; // 삭제된 컬렉션을 이전 실행에서 보존한 경우 삭제 감지 시각
+  timeline?: CollectionTimeline;
+  convergence?: SamplingConvergence; // 적응형 샘플링 사용 시
 }
 
 /**
@@ -146,6 +317,8 @@ export interface RunMeta {
     timeField?: string;
     timeWindowDays?: number;
     match?: string;
+    buckets?: number; // stratified 전략 구간 수
+    bucketCounts?: Record<string, SampleBucket[]>; // 컬렉션별 구간 샘플 수
   };
   options: {
     maxDepth: number;
@@ -161,4 +334,5 @@ export interface RunMeta {
 export interface SchemaOutput {
   meta: RunMeta;
   collections: Record<string, CollectionSchema>;
+  relations?: VerifiedRelation[]; // --relations verify일 때 검증된 참조 관계
 }
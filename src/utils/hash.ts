@@ -1,4 +1,5 @@
 import { createHash } from 'crypto';
+import { deepSortKeys } from './sort';
 
 /**
  * 입력 문자열의 SHA256 해시 생성
@@ -8,10 +9,10 @@ export function sha256(input: string): string {
 }
 
 /**
- * 객체의 SHA256 해시 생성 (JSON 직렬화)
+ * 객체의 SHA256 해시 생성 (키를 깊이 정렬한 JSON 직렬화)
  */
 export function hashObject(obj: unknown): string {
-  const json = JSON.stringify(obj, Object.keys(obj as object).sort());
+  const json = JSON.stringify(deepSortKeys(obj));
   return sha256(json);
 }
 
@@ -0,0 +1,53 @@
+import { test, expect, describe } from 'bun:test';
+import { buildExactStatsPipeline, collectExactStats, toFieldPath } from '../../../src/adapters/mongo/exact';
+import { BsonType } from '../../../src/types/bson';
+
+describe('toFieldPath', () => {
+  test('should convert plain and nested paths', () => {
+    expect(toFieldPath('email')).toBe('email');
+    expect(toFieldPath('profile.name')).toBe('profile.name');
+  });
+
+  test('should skip array wildcards and keys not addressable by field path', () => {
+    expect(toFieldPath('items.[*].sku')).toBeNull();
+    expect(toFieldPath('meta.a\\.b')).toBeNull();
+    expect(toFieldPath('$type')).toBeNull();
+  });
+});
+
+describe('buildExactStatsPipeline', () => {
+  test('should group $type of each path by path index', () => {
+    const pipeline = buildExactStatsPipeline(['_id', 'profile.name']);
+
+    expect(pipeline[0]).toEqual({
+      $project: {
+        _id: 0,
+        s: [
+          { p: 0, t: { $type: '$_id' } },
+          { p: 1, t: { $type: '$profile.name' } },
+        ],
+      },
+    });
+    expect(pipeline[2]).toEqual({ $group: { _id: { p: '$s.p', t: '$s.t' }, count: { $sum: 1 } } });
+  });
+});
+
+describe('collectExactStats', () => {
+  test('should count presence and types, treating missing as absent', () => {
+    const result = collectExactStats(
+      ['_id', 'active'],
+      [
+        { _id: { p: 0, t: 'objectId' }, count: 1000 },
+        { _id: { p: 1, t: 'bool' }, count: 900 },
+        { _id: { p: 1, t: 'null' }, count: 50 },
+        { _id: { p: 1, t: 'missing' }, count: 50 },
+      ]
+    );
+
+    expect(result.totalDocs).toBe(1000);
+    expect(result.paths.get('active')).toEqual({
+      presentCount: 950,
+      typeCounts: { [BsonType.Boolean]: 900, [BsonType.Null]: 50 },
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { test, expect, describe } from 'bun:test';
+import { allocateBucketSizes, splitTimeRange } from '../../../src/adapters/mongo/sampler';
+
+describe('allocateBucketSizes', () => {
+  test('should distribute remainder to leading buckets', () => {
+    expect(allocateBucketSizes(100, 5)).toEqual([20, 20, 20, 20, 20]);
+    expect(allocateBucketSizes(12, 5)).toEqual([3, 3, 2, 2, 2]);
+    expect(allocateBucketSizes(3, 5)).toEqual([1, 1, 1, 0, 0]);
+  });
+});
+
+describe('splitTimeRange', () => {
+  test('should split range into equal-length buckets', () => {
+    const ranges = splitTimeRange(new Date('2024-01-01T00:00:00Z'), new Date('2024-01-05T00:00:00Z'), 4);
+
+    expect(ranges.map((r) => r.start.toISOString().slice(0, 10))).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-04',
+    ]);
+    expect(ranges[3]?.end.toISOString()).toBe('2024-01-05T00:00:00.000Z');
+  });
+
+  test('should use single bucket when all documents share the same time', () => {
+    const time = new Date('2024-01-01T00:00:00Z');
+
+    expect(splitTimeRange(time, time, 5)).toEqual([{ start: time, end: time }]);
+  });
+});
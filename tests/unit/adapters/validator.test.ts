@@ -0,0 +1,35 @@
+import { test, expect, describe } from 'bun:test';
+import type { Collection, Document } from 'mongodb';
+import { dryRunValidator } from '../../../src/adapters/mongo/validator';
+
+function createCollection(methods: Partial<Collection<Document>>): Collection<Document> {
+  return { collectionName: 'users', ...methods } as Collection<Document>;
+}
+
+describe('dryRunValidator', () => {
+  test('should count failing documents', async () => {
+    const collection = createCollection({
+      estimatedDocumentCount: async () => 200,
+      countDocuments: async () => 50,
+    });
+
+    const result = await dryRunValidator(collection, { $jsonSchema: {} });
+
+    expect(result).toEqual({ collection: 'users', estimatedCount: 200, failing: 50, failingRatio: 0.25 });
+  });
+
+  test('should return null counts when the document count fails', async () => {
+    const collection = createCollection({
+      estimatedDocumentCount: async () => {
+        throw new Error('not authorized');
+      },
+      countDocuments: async () => 50,
+    });
+
+    const result = await dryRunValidator(collection, { $jsonSchema: {} });
+
+    expect(result.failing).toBeNull();
+    expect(result.failingRatio).toBeNull();
+    expect(result.error).toBe('not authorized');
+  });
+});
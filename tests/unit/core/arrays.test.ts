@@ -0,0 +1,50 @@
+import { test, expect, describe } from 'bun:test';
+import { profileArrays } from '../../../src/core/infer/arrays';
+import { BsonType } from '../../../src/types/bson';
+import type { PathValue } from '../../../src/types/schema';
+
+function arrays(values: unknown[][]): PathValue[] {
+  return values.map((value, docIndex) => ({ value, type: BsonType.Array, docIndex }));
+}
+
+describe('profileArrays', () => {
+  test('should calculate length distribution and empty ratio', () => {
+    const profile = profileArrays(arrays([[], ['a'], ['a', 'b'], ['a', 'b', 'c']]));
+
+    expect(profile).toEqual({
+      minLength: 0,
+      avgLength: 1.5,
+      maxLength: 3,
+      p95Length: 2.85,
+      emptyRatio: 0.25,
+      unbounded: false,
+    });
+  });
+
+  test('should flag unbounded growth by p95 length', () => {
+    const long = Array.from({ length: 150 }, (_, i) => i);
+    const profile = profileArrays(arrays([long, long, long]));
+
+    expect(profile?.unbounded).toBe(true);
+  });
+
+  test('should detect fixed-length tuples with positional types', () => {
+    const points = Array.from({ length: 5 }, (_, i) => [126.97 + i, 37.56]);
+    const pairs = Array.from({ length: 5 }, (_, i) => [`key${i}`, i]);
+
+    expect(profileArrays(arrays(points))?.tuple).toEqual([BsonType.Double, BsonType.Double]);
+    expect(profileArrays(arrays(pairs))?.tuple).toEqual([BsonType.String, BsonType.Int]);
+  });
+
+  test('should not treat variable-length or object arrays as tuples', () => {
+    const variable = [[1, 2], [1, 2, 3], [1, 2], [1, 2], [1, 2]];
+    const objects = Array.from({ length: 5 }, () => [{ a: 1 }, { a: 2 }]);
+
+    expect(profileArrays(arrays(variable))?.tuple).toBeUndefined();
+    expect(profileArrays(arrays(objects))?.tuple).toBeUndefined();
+  });
+
+  test('should ignore non-array values', () => {
+    expect(profileArrays([{ value: 'a', type: BsonType.String, docIndex: 0 }])).toBeNull();
+  });
+});
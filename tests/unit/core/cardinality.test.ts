@@ -0,0 +1,84 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  addToSketch,
+  createSketch,
+  estimateCardinality,
+  estimateFieldCardinality,
+  markKeyCandidates,
+} from '../../../src/core/infer/cardinality';
+import { aggregatePath } from '../../../src/core/infer/aggregator';
+import { BsonType } from '../../../src/types/bson';
+import type { IndexInfo, PathValue } from '../../../src/types/schema';
+
+function stringValues(values: string[]): PathValue[] {
+  return values.map((value, docIndex) => ({ value, type: BsonType.String, docIndex }));
+}
+
+describe('estimateCardinality', () => {
+  test('should count small sets exactly', () => {
+    const sketch = createSketch();
+    for (const key of ['a', 'b', 'c', 'a', 'b']) {
+      addToSketch(sketch, key);
+    }
+
+    expect(estimateCardinality(sketch)).toBe(3);
+  });
+
+  test('should estimate large sets within a few percent', () => {
+    const sketch = createSketch();
+    for (let i = 0; i < 50_000; i++) {
+      addToSketch(sketch, `user-${i}`);
+    }
+
+    const estimate = estimateCardinality(sketch);
+    expect(Math.abs(estimate - 50_000) / 50_000).toBeLessThan(0.05);
+  });
+});
+
+describe('estimateFieldCardinality', () => {
+  test('should flag low cardinality fields', () => {
+    const values = stringValues(Array.from({ length: 30 }, (_, i) => ['active', 'inactive', 'banned'][i % 3] as string));
+
+    expect(estimateFieldCardinality(values)).toEqual({ distinct: 3, uniqueRatio: 0.1, lowCardinality: true });
+  });
+
+  test('should not flag few values as low cardinality', () => {
+    const result = estimateFieldCardinality(stringValues(['a', 'b', 'a']));
+
+    expect(result?.lowCardinality).toBe(false);
+  });
+
+  test('should ignore object and array values', () => {
+    const values: PathValue[] = [
+      { value: {}, type: BsonType.Object, docIndex: 0 },
+      { value: [], type: BsonType.Array, docIndex: 1 },
+    ];
+
+    expect(estimateFieldCardinality(values)).toBeNull();
+  });
+});
+
+describe('markKeyCandidates', () => {
+  const unique = stringValues(Array.from({ length: 20 }, (_, i) => `SKU-${i}`));
+
+  test('should flag always-present unique fields without unique index', () => {
+    const sku = aggregatePath('sku', unique, { totalDocs: 20 });
+
+    expect(markKeyCandidates([sku], [])).toEqual(['sku']);
+    expect(sku.cardinality?.keyCandidate).toBe(true);
+  });
+
+  test('should skip fields covered by a unique index', () => {
+    const sku = aggregatePath('sku', unique, { totalDocs: 20 });
+    const indexes: IndexInfo[] = [{ name: 'sku_1', key: { sku: 1 }, unique: true }];
+
+    expect(markKeyCandidates([sku], indexes)).toEqual([]);
+    expect(sku.cardinality?.keyCandidate).toBeUndefined();
+  });
+
+  test('should skip fields missing from some documents', () => {
+    const sku = aggregatePath('sku', unique, { totalDocs: 25 });
+
+    expect(markKeyCandidates([sku], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { test, expect, describe } from 'bun:test';
+import { checkContract, hasContractErrors, resolveSeverity } from '../../../src/core/contract/checker';
+import type { CollectionSchema, FieldSchema, SchemaOutput } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createField(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(name: string, fields: FieldSchema[]): CollectionSchema {
+  return {
+    name,
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields,
+    variants: [],
+    warnings: [],
+  };
+}
+
+function createBaseline(collections: CollectionSchema[]): SchemaOutput {
+  return {
+    meta: {
+      generatedAt: '2024-01-01T00:00:00Z',
+      database: 'testdb',
+      sampling: { strategy: 'random', size: 100 },
+      options: { maxDepth: 20, redact: 'pii', llm: 'off' },
+      truncationCounters: { depthTruncated: 0, keysTruncated: 0, arraysTruncated: 0 },
+    },
+    collections: Object.fromEntries(collections.map((c) => [c.name, c])),
+  };
+}
+
+describe('resolveSeverity', () => {
+  test('should use default severity without rules', () => {
+    expect(resolveSeverity('collection-removed', 'users', undefined, [])).toBe('error');
+    expect(resolveSeverity('new-pii-hint', 'users', 'email', [])).toBe('warn');
+  });
+
+  test('should let the last matching rule win', () => {
+    const rules = [
+      { rule: 'new-mixed-type' as const, severity: 'warn' as const },
+      { rule: 'new-mixed-type' as const, severity: 'off' as const, collection: 'logs*' },
+    ];
+
+    expect(resolveSeverity('new-mixed-type', 'users', 'age', rules)).toBe('warn');
+    expect(resolveSeverity('new-mixed-type', 'logs_2024', 'age', rules)).toBe('off');
+  });
+
+  test('should match path globs only for field rules', () => {
+    const rules = [{ rule: 'collection-removed' as const, severity: 'off' as const, path: 'meta.*' }];
+
+    expect(resolveSeverity('collection-removed', 'users', undefined, rules)).toBe('error');
+  });
+});
+
+describe('checkContract', () => {
+  const baseline = createBaseline([
+    createCollection('users', [
+      createField('email'),
+      createField('age', { typeRatio: { [BsonType.Int]: 1 } }),
+      createField('legacy', { optional: true, presentRatio: 0.5 }),
+    ]),
+    createCollection('sessions', [createField('token')]),
+  ]);
+
+  test('should pass when observed schema matches baseline', () => {
+    const observed = Object.values(baseline.collections);
+
+    expect(checkContract(baseline, observed)).toEqual([]);
+  });
+
+  test('should detect required field becoming optional', () => {
+    const observed = [
+      createCollection('users', [
+        createField('email', { optional: true, presentRatio: 0.8 }),
+        createField('age', { typeRatio: { [BsonType.Int]: 1 } }),
+      ]),
+      createCollection('sessions', [createField('token')]),
+    ];
+
+    const violations = checkContract(baseline, observed);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]?.rule).toBe('required-became-optional');
+    expect(violations[0]?.path).toBe('email');
+  });
+
+  test('should detect required fields missing from the observed schema', () => {
+    const observed = [
+      createCollection('users', [createField('email')]),
+      createCollection('sessions', [createField('token')]),
+    ];
+
+    const violations = checkContract(baseline, observed);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]?.rule).toBe('required-became-optional');
+    expect(violations[0]?.path).toBe('age');
+    expect(violations[0]?.message).toContain('no longer observed');
+  });
+
+  test('should detect new mixed types', () => {
+    const observed = [
+      createCollection('users', [
+        createField('email'),
+        createField('age', {
+          typeRatio: { [BsonType.Int]: 0.9, [BsonType.String]: 0.1 },
+          mixedType: true,
+        }),
+      ]),
+      createCollection('sessions', [createField('token')]),
+    ];
+
+    const violations = checkContract(baseline, observed);
+
+    expect(violations.map((v) => v.rule)).toEqual(['new-mixed-type']);
+    expect(violations[0]?.message).toContain('string');
+  });
+
+  test('should detect vanished collections within scope', () => {
+    const observed = [baseline.collections.users as CollectionSchema];
+
+    expect(checkContract(baseline, observed).map((v) => v.collection)).toEqual(['sessions']);
+    expect(checkContract(baseline, observed, { isInScope: (name) => name === 'users' })).toEqual([]);
+  });
+
+  test('should skip collections already preserved as removed in baseline', () => {
+    const preserved = createBaseline([
+      baseline.collections.users as CollectionSchema,
+      { ...createCollection('sessions', []), removedAt: '2024-01-01T00:00:00+09:00' },
+    ]);
+    const observed = [baseline.collections.users as CollectionSchema];
+
+    expect(checkContract(preserved, observed)).toEqual([]);
+  });
+
+  test('should report new PII hints as warnings by default', () => {
+    const observed = [
+      createCollection('users', [
+        createField('email', { hints: ['email'] }),
+        createField('age', { typeRatio: { [BsonType.Int]: 1 } }),
+      ]),
+      createCollection('sessions', [createField('token')]),
+    ];
+
+    const violations = checkContract(baseline, observed);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]?.severity).toBe('warn');
+    expect(hasContractErrors(violations)).toBe(false);
+  });
+
+  test('should apply rule severities per collection and path', () => {
+    const observed = [
+      createCollection('users', [
+        createField('email', { optional: true, presentRatio: 0.8 }),
+        createField('age', { typeRatio: { [BsonType.Int]: 1 } }),
+      ]),
+      createCollection('sessions', [createField('token')]),
+    ];
+
+    const violations = checkContract(baseline, observed, {
+      rules: [{ rule: 'required-became-optional', severity: 'off', collection: 'users', path: 'email' }],
+    });
+
+    expect(violations).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect, describe } from 'bun:test';
+import { assessConvergence, measurePresence } from '../../../src/core/infer/convergence';
+import { flatten, mergeFlattenResults } from '../../../src/core/flatten/flattener';
+
+function presenceOf(documents: Record<string, unknown>[]): Map<string, number> {
+  const merged = mergeFlattenResults(documents.map((doc, idx) => flatten(doc, idx)));
+  return measurePresence(merged.paths, documents.length);
+}
+
+describe('measurePresence', () => {
+  test('should count documents per path once', () => {
+    const presence = presenceOf([{ name: 'a', tags: ['x', 'y'] }, { name: 'b' }]);
+
+    expect(presence.get('name')).toBe(1);
+    expect(presence.get('tags')).toBe(0.5);
+  });
+
+  test('should return empty map without documents', () => {
+    expect(measurePresence(new Map(), 0).size).toBe(0);
+  });
+});
+
+describe('assessConvergence', () => {
+  test('should converge when no new paths and ratios are stable', () => {
+    const previous = new Map([['name', 1], ['email', 0.5]]);
+    const current = new Map([['name', 1], ['email', 0.51]]);
+
+    const check = assessConvergence(previous, current);
+
+    expect(check.converged).toBe(true);
+    expect(check.newPaths).toBe(0);
+    expect(check.score).toBe(0.99);
+  });
+
+  test('should not converge when new paths appear', () => {
+    const previous = new Map([['name', 1]]);
+    const current = new Map([['name', 1], ['nickname', 0.01]]);
+
+    const check = assessConvergence(previous, current);
+
+    expect(check.converged).toBe(false);
+    expect(check.newPaths).toBe(1);
+    expect(check.score).toBe(0.5);
+  });
+
+  test('should respect tolerance for ratio changes', () => {
+    const previous = new Map([['email', 0.5]]);
+    const current = new Map([['email', 0.45]]);
+
+    expect(assessConvergence(previous, current).converged).toBe(false);
+    expect(assessConvergence(previous, current, { tolerance: 0.1 }).converged).toBe(true);
+    expect(assessConvergence(previous, current).maxDelta).toBe(0.05);
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect, describe } from 'bun:test';
+import { profileDates } from '../../../src/core/infer/dates';
+import { BsonType } from '../../../src/types/bson';
+import type { PathValue } from '../../../src/types/schema';
+
+function dates(values: string[]): PathValue[] {
+  return values.map((value, docIndex) => ({ value: new Date(value), type: BsonType.Date, docIndex }));
+}
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+describe('profileDates', () => {
+  test('should calculate range, future dates and epoch sentinels', () => {
+    const profile = profileDates(
+      dates(['2023-01-01T10:15:00Z', '2024-03-05T23:59:59Z', '2030-01-01T08:00:00Z', '1970-01-01T00:00:00Z']),
+      NOW
+    );
+
+    expect(profile).toMatchObject({
+      earliest: '1970-01-01T00:00:00.000Z',
+      latest: '2030-01-01T08:00:00.000Z',
+      futureCount: 1,
+      epochCount: 1,
+      midnightRatio: 0.25,
+    });
+    expect(profile?.hourCounts[10]).toBe(1);
+    expect(profile?.dateOnlyOffset).toBeUndefined();
+  });
+
+  test('should coarsen the range to months when requested', () => {
+    const profile = profileDates(dates(['1988-04-17T00:00:00Z', '1995-11-02T00:00:00Z']), NOW, true);
+
+    expect(profile?.earliest).toBe('1988-04');
+    expect(profile?.latest).toBe('1995-11');
+  });
+
+  test('should detect date-only values stored at UTC midnight', () => {
+    const profile = profileDates(dates(['2024-01-01', '2024-01-02', '2024-01-03', '2024-02-01', '2024-03-01']), NOW);
+
+    expect(profile?.midnightRatio).toBe(1);
+    expect(profile?.dateOnlyOffset).toBe(0);
+  });
+
+  test('should detect date-only values stored at local midnight', () => {
+    const profile = profileDates(
+      dates([
+        '2023-12-31T15:00:00Z',
+        '2024-01-01T15:00:00Z',
+        '2024-01-02T15:00:00Z',
+        '2024-01-03T15:00:00Z',
+        '2024-01-04T15:00:00Z',
+      ]),
+      NOW
+    );
+
+    expect(profile?.midnightRatio).toBe(0);
+    expect(profile?.dateOnlyOffset).toBe(9);
+  });
+
+  test('should ignore non-date values', () => {
+    expect(profileDates([{ value: '2024-01-01', type: BsonType.String, docIndex: 0 }], NOW)).toBeNull();
+  });
+});
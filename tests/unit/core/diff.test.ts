@@ -0,0 +1,299 @@
+import { test, expect, describe } from 'bun:test';
+import { diffField, diffCollection, diffSchemas, hasSchemaChanges } from '../../../src/core/diff/differ';
+import { renderSchemaDiffMarkdown } from '../../../src/render/markdown/diff';
+import { mergeChangelog, renderChangelogEntry } from '../../../src/render/markdown/changelog';
+import { renderSchemaDiffTable } from '../../../src/render/text/diff';
+import type { CollectionSchema, FieldSchema, RunMeta, SchemaOutput } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+import { wilsonInterval } from '../../../src/core/infer/stats';
+
+function createField(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(name: string, overrides: Partial<CollectionSchema> = {}): CollectionSchema {
+  return {
+    name,
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [{ name: '_id_', key: { _id: 1 }, unique: true }],
+    fields: [createField('_id', { typeRatio: { [BsonType.ObjectId]: 1 } })],
+    variants: [],
+    warnings: [],
+    ...overrides,
+  };
+}
+
+function createOutput(collections: CollectionSchema[], generatedAt = '2024-01-01T00:00:00Z'): SchemaOutput {
+  const meta: RunMeta = {
+    generatedAt,
+    database: 'testdb',
+    sampling: { strategy: 'random', size: 100 },
+    options: { maxDepth: 20, redact: 'pii', llm: 'off' },
+    truncationCounters: { depthTruncated: 0, keysTruncated: 0, arraysTruncated: 0 },
+  };
+
+  return {
+    meta,
+    collections: Object.fromEntries(collections.map((c) => [c.name, c])),
+  };
+}
+
+describe('diffField', () => {
+  test('should return null when nothing changed', () => {
+    expect(diffField(createField('name'), createField('name'))).toBeNull();
+  });
+
+  test('should report presentRatio changes beyond threshold', () => {
+    const change = diffField(
+      createField('name'),
+      createField('name', { presentRatio: 0.8, optional: true }),
+      { ratioThreshold: 0.1 }
+    );
+
+    expect(change?.presentRatio).toEqual({ before: 1, after: 0.8 });
+    expect(change?.optional).toEqual({ before: false, after: true });
+  });
+
+  test('should ignore presentRatio changes below threshold', () => {
+    const change = diffField(createField('name'), createField('name', { presentRatio: 0.98 }), {
+      ratioThreshold: 0.05,
+    });
+
+    expect(change).toBeNull();
+  });
+
+  test('should ignore presence and type changes within sampling noise', () => {
+    const sampled = (present: number, strings: number) =>
+      createField('nickname', {
+        presentRatio: present / 100,
+        presentInterval: wilsonInterval(present, 100),
+        optional: present < 100,
+        typeRatio: { [BsonType.String]: strings / present, [BsonType.Null]: 1 - strings / present },
+        typeIntervals: {
+          [BsonType.String]: wilsonInterval(strings, present),
+          [BsonType.Null]: wilsonInterval(present - strings, present),
+        },
+      });
+
+    expect(diffField(sampled(50, 40), sampled(58, 40))).toBeNull();
+    expect(diffField(sampled(98, 80), sampled(100, 80))).toBeNull();
+    expect(diffField(sampled(20, 10), sampled(90, 80))?.presentRatio).toEqual({ before: 0.2, after: 0.9 });
+  });
+
+  test('should report newly appeared types regardless of threshold', () => {
+    const change = diffField(
+      createField('age', { typeRatio: { [BsonType.Int]: 1 } }),
+      createField('age', { typeRatio: { [BsonType.Int]: 0.99, [BsonType.String]: 0.01 } }),
+      { ratioThreshold: 0.05 }
+    );
+
+    expect(change?.typeShifts).toEqual([{ type: BsonType.String, before: 0, after: 0.01 }]);
+  });
+});
+
+describe('diffCollection', () => {
+  test('should detect added and removed fields', () => {
+    const before = createCollection('users', { fields: [createField('_id'), createField('legacy')] });
+    const after = createCollection('users', { fields: [createField('_id'), createField('email')] });
+
+    const result = diffCollection(before, after);
+
+    expect(result.addedFields).toEqual(['email']);
+    expect(result.removedFields).toEqual(['legacy']);
+  });
+
+  test('should detect index changes', () => {
+    const before = createCollection('users', {
+      indexes: [
+        { name: '_id_', key: { _id: 1 }, unique: true },
+        { name: 'email_1', key: { email: 1 }, unique: false },
+        { name: 'old_1', key: { old: 1 }, unique: false },
+      ],
+    });
+    const after = createCollection('users', {
+      indexes: [
+        { name: '_id_', key: { _id: 1 }, unique: true },
+        { name: 'email_1', key: { email: 1 }, unique: true },
+        { name: 'name_1', key: { name: 1 }, unique: false },
+      ],
+    });
+
+    const result = diffCollection(before, after);
+
+    expect(result.indexes).toEqual({ added: ['name_1'], removed: ['old_1'], changed: ['email_1'] });
+  });
+
+  test('should detect variant changes by signature', () => {
+    const variant = { count: 10, ratio: 1, paths: ['_id'], diff: { addedPaths: [], missingPaths: [] } };
+    const before = createCollection('users', { variants: [{ ...variant, signature: 'aaaa1111' }] });
+    const after = createCollection('users', { variants: [{ ...variant, signature: 'bbbb2222' }] });
+
+    const result = diffCollection(before, after);
+
+    expect(result.variants).toEqual({
+      added: ['bbbb2222'],
+      removed: ['aaaa1111'],
+      labels: { bbbb2222: 'primary (1 paths)', aaaa1111: 'primary (1 paths)' },
+    });
+  });
+
+  test('should label variants by discriminator value or distinguishing paths', () => {
+    const variant = { count: 10, ratio: 0.5, paths: ['_id'], diff: { addedPaths: [], missingPaths: [] } };
+    const before = createCollection('payments', {
+      variants: [{ ...variant, signature: 'aaaa1111', diff: { addedPaths: ['card.last4'], missingPaths: ['iban'] } }],
+    });
+    const after = createCollection('payments', {
+      discriminator: 'kind',
+      variants: [{ ...variant, signature: 'bbbb2222', discriminatorValues: ['paypal'] }],
+    });
+
+    const result = diffCollection(before, after);
+
+    expect(result.variants.labels).toEqual({ bbbb2222: 'kind=paypal', aaaa1111: '+card.last4, -iban' });
+  });
+});
+
+describe('diffSchemas', () => {
+  test('should detect added and removed collections', () => {
+    const base = createOutput([createCollection('users'), createCollection('legacy')]);
+    const head = createOutput([createCollection('users'), createCollection('orders')]);
+
+    const result = diffSchemas(base, head);
+
+    expect(result.addedCollections).toEqual(['orders']);
+    expect(result.removedCollections).toEqual(['legacy']);
+    expect(result.collections).toEqual([]);
+    expect(hasSchemaChanges(result)).toBe(true);
+  });
+
+  test('should omit unchanged collections', () => {
+    const base = createOutput([createCollection('users')]);
+    const head = createOutput([createCollection('users')], '2024-02-01T00:00:00Z');
+
+    const result = diffSchemas(base, head);
+
+    expect(hasSchemaChanges(result)).toBe(false);
+    expect(result.head.generatedAt).toBe('2024-02-01T00:00:00Z');
+  });
+
+  test('should report no changes between two samples of the same data', () => {
+    const sample = (present: number, generatedAt?: string) =>
+      createOutput(
+        [
+          createCollection('users', {
+            fields: [
+              createField('_id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+              createField('nickname', {
+                presentRatio: present / 100,
+                presentCount: present,
+                presentInterval: wilsonInterval(present, 100),
+                optional: true,
+              }),
+            ],
+          }),
+        ],
+        generatedAt
+      );
+
+    const result = diffSchemas(sample(44), sample(53, '2024-02-01T00:00:00Z'));
+
+    expect(hasSchemaChanges(result)).toBe(false);
+  });
+
+  test('should treat collections preserved as removed as absent', () => {
+    const base = createOutput([createCollection('users'), createCollection('legacy')]);
+    const head = createOutput([
+      createCollection('users'),
+      createCollection('legacy', { removedAt: '2024-02-01T00:00:00Z', indexes: [] }),
+    ]);
+
+    const result = diffSchemas(base, head);
+
+    expect(result.removedCollections).toEqual(['legacy']);
+    expect(result.collections).toEqual([]);
+  });
+});
+
+describe('diff renderers', () => {
+  const base = createOutput([createCollection('users', { fields: [createField('_id'), createField('name')] })]);
+  const head = createOutput([
+    createCollection('users', {
+      fields: [createField('_id'), createField('name', { presentRatio: 0.5, optional: true }), createField('email')],
+    }),
+    createCollection('orders'),
+  ]);
+
+  test('should render markdown with collection and field changes', () => {
+    const result = renderSchemaDiffMarkdown(diffSchemas(base, head));
+
+    expect(result).toContain('# Schema Diff: testdb');
+    expect(result).toContain('- Added: `orders`');
+    expect(result).toContain('### users');
+    expect(result).toContain('| Added | `email` | - |');
+    expect(result).toContain('| Changed | `name` | present 100% → 50%, required → optional |');
+  });
+
+  test('should render markdown without changes', () => {
+    const result = renderSchemaDiffMarkdown(diffSchemas(base, base));
+
+    expect(result).toContain('No schema changes detected.');
+  });
+
+  test('should render aligned terminal table', () => {
+    const result = renderSchemaDiffTable(diffSchemas(base, head));
+    const lines = result.trimEnd().split('\n');
+
+    expect(lines[0]).toMatch(/^COLLECTION\s+CHANGE\s+TARGET\s+DETAILS$/);
+    expect(result).toContain('orders');
+    expect(lines.some((l) => /^users\s+changed\s+name\s+present 100% → 50%/.test(l))).toBe(true);
+  });
+
+  test('should render changelog entry with field, type, variant and index changes', () => {
+    const changed = createOutput(
+      [
+        createCollection('users', {
+          fields: [createField('_id'), createField('name', { typeRatio: { [BsonType.String]: 0.5, [BsonType.Int]: 0.5 } })],
+          indexes: [{ name: 'name_1', key: { name: 1 }, unique: false }],
+          variants: [{ signature: 'abc123', count: 10, ratio: 1, paths: ['_id', 'name'], diff: { addedPaths: [], missingPaths: [] } }],
+        }),
+      ],
+      '2024-02-01T00:00:00Z'
+    );
+
+    const result = renderChangelogEntry(diffSchemas(base, changed), './artifacts/history/2024-01-01T00-00-00Z.json');
+
+    expect(result).toContain('## 2024-02-01T00:00:00Z');
+    expect(result).toContain('Compared with [2024-01-01T00:00:00Z](./artifacts/history/2024-01-01T00-00-00Z.json)');
+    expect(result).toContain('### users');
+    expect(result).toContain('- Type change: `name` (int 0% → 50%, string 100% → 50%)');
+    expect(result).toContain('- New variants: `primary (2 paths)`');
+    expect(result).toContain('- New indexes: `name_1`');
+    expect(result).toContain('- Removed indexes: `_id_`');
+  });
+
+  test('should insert newest changelog entry below header', () => {
+    const first = mergeChangelog(null, renderChangelogEntry(diffSchemas(base, head), './a.json'));
+    const second = mergeChangelog(first, '## 2024-03-01T00:00:00Z\n\n- New collections: `logs`\n');
+
+    expect(first.startsWith('# Changelog\n\n## 2024-01-01T00:00:00Z')).toBe(true);
+    expect(first).toContain('- New collections: `orders`');
+    expect(first).toContain('- New fields: `email`');
+    expect(first).toContain('- Presence changes: `name`');
+    expect(second.indexOf('2024-03-01')).toBeLessThan(second.indexOf('2024-01-01'));
+    expect(second.match(/# Changelog/g)).toHaveLength(1);
+  });
+});
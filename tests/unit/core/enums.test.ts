@@ -0,0 +1,62 @@
+import { test, expect, describe } from 'bun:test';
+import { collectEnumValues, formatEnumValues } from '../../../src/core/infer/enums';
+import { estimateFieldCardinality } from '../../../src/core/infer/cardinality';
+import { BsonType } from '../../../src/types/bson';
+import type { PathValue } from '../../../src/types/schema';
+
+function repeat(values: unknown[], type: BsonType, times: number): PathValue[] {
+  return Array.from({ length: times }, (_, i) => ({ value: values[i % values.length], type, docIndex: i }));
+}
+
+describe('collectEnumValues', () => {
+  test('should record observed values by frequency', () => {
+    const values = [...repeat(['active', 'active', 'banned'], BsonType.String, 30)];
+    values.push({ value: null, type: BsonType.Null, docIndex: 30 });
+
+    expect(collectEnumValues('status', values, estimateFieldCardinality(values))).toEqual([
+      { value: 'active', count: 20 },
+      { value: 'banned', count: 10 },
+    ]);
+  });
+
+  test('should skip numeric values', () => {
+    const values = repeat([1, 2], BsonType.Int, 20);
+
+    expect(collectEnumValues('level', values, estimateFieldCardinality(values))).toBeNull();
+  });
+
+  test('should skip constants and rarely repeated values', () => {
+    const constant = repeat(['v1'], BsonType.String, 30);
+    const sparse = repeat(Array.from({ length: 10 }, (_, i) => `b${i}`), BsonType.String, 30);
+
+    expect(collectEnumValues('version', constant, estimateFieldCardinality(constant))).toBeNull();
+    expect(collectEnumValues('target', sparse, estimateFieldCardinality(sparse))).toBeNull();
+    expect(collectEnumValues('target', sparse, estimateFieldCardinality(sparse), { minRepetition: 3 })).toHaveLength(10);
+  });
+
+  test('should skip high cardinality and mixed type fields', () => {
+    const unique = repeat(Array.from({ length: 30 }, (_, i) => `v${i}`), BsonType.String, 30);
+    const mixed = [...repeat(['a'], BsonType.String, 10), ...repeat([1], BsonType.Int, 10)];
+
+    expect(collectEnumValues('code', unique, estimateFieldCardinality(unique))).toBeNull();
+    expect(collectEnumValues('code', mixed, estimateFieldCardinality(mixed))).toBeNull();
+  });
+
+  test('should follow redaction rules', () => {
+    const emails = repeat(['a@example.com', 'b@example.com'], BsonType.String, 20);
+    const status = repeat(['active', 'banned'], BsonType.String, 20);
+
+    expect(collectEnumValues('contact', emails, estimateFieldCardinality(emails))).toBeNull();
+    expect(collectEnumValues('contact', emails, estimateFieldCardinality(emails), { redact: 'off' })).toHaveLength(2);
+    expect(collectEnumValues('status', status, estimateFieldCardinality(status), { redact: 'all' })).toBeNull();
+  });
+});
+
+describe('formatEnumValues', () => {
+  test('should format values with ratios', () => {
+    expect(formatEnumValues([{ value: 'active', count: 3 }, { value: 'banned', count: 1 }])).toEqual([
+      'active(75%)',
+      'banned(25%)',
+    ]);
+  });
+});
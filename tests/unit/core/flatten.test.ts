@@ -1,5 +1,6 @@
 import { test, expect, describe } from 'bun:test';
 import { flatten, mergeFlattenResults } from '../../../src/core/flatten/flattener';
+import { detectKeyPattern, detectMapKeys } from '../../../src/core/flatten/mapKeys';
 import { escapeKey, unescapeKey, joinPath, splitPath } from '../../../src/core/flatten/escaping';
 import { BsonType } from '../../../src/types/bson';
 
@@ -167,6 +168,69 @@ describe('flatten', () => {
   });
 });
 
+describe('detectMapKeys', () => {
+  test('should detect key patterns', () => {
+    expect(detectKeyPattern('2024-01-15')).toBe('date');
+    expect(detectKeyPattern('2024-01')).toBe('date');
+    expect(detectKeyPattern('507f1f77bcf86cd799439011')).toBe('objectId');
+    expect(detectKeyPattern('550e8400-e29b-41d4-a716-446655440000')).toBe('uuid');
+    expect(detectKeyPattern('42')).toBe('number');
+    expect(detectKeyPattern('name')).toBeNull();
+  });
+
+  test('should require every key to share one pattern', () => {
+    expect(detectMapKeys(['2024-01-01', '2024-01-02'])).toBe('date');
+    expect(detectMapKeys(['2024-01-01', 'total'])).toBeNull();
+    expect(detectMapKeys(['2024-01-01', '42'])).toBeNull();
+    expect(detectMapKeys([])).toBeNull();
+    expect(detectMapKeys(['2024-01-01'])).toBeNull();
+    expect(detectMapKeys(['2024-01-01'], 1)).toBe('date');
+  });
+});
+
+describe('flatten with dynamic keys', () => {
+  test('should collapse dynamic keys into a {*} segment', () => {
+    const doc = { stats: { '2024-01-01': { views: 1 }, '2024-01-02': { views: 2 } } };
+
+    const result = flatten(doc, 0);
+
+    expect(result.paths.get('stats.{*}')?.length).toBe(2);
+    expect(result.paths.get('stats.{*}.views')?.map((pv) => pv.value)).toEqual([1, 2]);
+    expect(result.paths.has('stats.2024-01-01.views')).toBe(false);
+    expect(result.mapKeys?.get('stats')).toBe('date');
+  });
+
+  test('should not collapse single-key objects', () => {
+    const result = flatten({ a: { '1': 'x' } }, 0);
+
+    expect(result.paths.has('a.1')).toBe(true);
+    expect(result.mapKeys?.size).toBe(0);
+  });
+
+  test('should sample map entries without exhausting the key budget', () => {
+    const stats: Record<string, { views: number }> = {};
+    for (let i = 0; i < 3000; i++) {
+      stats[new Date(Date.UTC(2020, 0, 1) + i * 86_400_000).toISOString().slice(0, 10)] = { views: i };
+    }
+
+    const result = flatten({ stats, name: 'probe' }, 0, { maxMapSample: 20 });
+
+    expect(result.paths.get('stats.{*}.views')?.length).toBe(20);
+    expect(result.paths.has('name')).toBe(true);
+    expect(result.truncationCounters.keysTruncated).toBe(0);
+  });
+
+  test('should merge map keys across documents', () => {
+    const result1 = flatten({ scores: { '1': 10, '4': 40 } }, 0);
+    const result2 = flatten({ scores: { '2': 20, '3': 30 } }, 1);
+
+    const merged = mergeFlattenResults([result1, result2]);
+
+    expect(merged.paths.get('scores.{*}')?.length).toBe(4);
+    expect(merged.mapKeys?.get('scores')).toBe('number');
+  });
+});
+
 describe('mergeFlattenResults', () => {
   test('should merge multiple flatten results', () => {
     const result1 = flatten({ a: 1, b: 2 }, 0);
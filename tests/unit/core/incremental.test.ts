@@ -0,0 +1,93 @@
+import { test, expect, describe } from 'bun:test';
+import { findUnchangedSchema, preserveRemovedCollection, PRESERVED_WARNING } from '../../../src/core/explain/incremental';
+import type { CollectionFingerprint, CollectionSchema, SchemaOutput } from '../../../src/types/schema';
+import { hashObject } from '../../../src/utils/hash';
+
+const fingerprint: CollectionFingerprint = { indexes: 'idx', data: 'data', options: 'opts' };
+
+function createOutput(collection: Partial<CollectionSchema>): SchemaOutput {
+  return {
+    meta: {
+      generatedAt: '2024-01-01T00:00:00Z',
+      database: 'testdb',
+      sampling: { strategy: 'random', size: 100 },
+      options: { maxDepth: 20, redact: 'on', llm: 'off' },
+      truncationCounters: { depthTruncated: 0, keysTruncated: 0, arraysTruncated: 0 },
+    },
+    collections: {
+      users: {
+        name: 'users',
+        estimatedCount: 100,
+        sampledCount: 100,
+        indexes: [],
+        fields: [],
+        variants: [],
+        warnings: [],
+        ...collection,
+      },
+    },
+  };
+}
+
+describe('findUnchangedSchema', () => {
+  test('should return previous schema when fingerprint matches', () => {
+    const output = createOutput({ fingerprint });
+
+    expect(findUnchangedSchema(output, 'users', { ...fingerprint })).toBe(output.collections.users!);
+  });
+
+  test('should return null when any fingerprint part changed', () => {
+    const output = createOutput({ fingerprint });
+
+    expect(findUnchangedSchema(output, 'users', { ...fingerprint, indexes: 'other' })).toBeNull();
+    expect(findUnchangedSchema(output, 'users', { ...fingerprint, data: 'other' })).toBeNull();
+    expect(findUnchangedSchema(output, 'users', { ...fingerprint, options: 'other' })).toBeNull();
+  });
+
+  test('should return null without previous fingerprint or schema', () => {
+    expect(findUnchangedSchema(createOutput({}), 'users', fingerprint)).toBeNull();
+    expect(findUnchangedSchema(createOutput({ fingerprint }), 'orders', fingerprint)).toBeNull();
+    expect(findUnchangedSchema(null, 'users', fingerprint)).toBeNull();
+  });
+});
+
+describe('preserveRemovedCollection', () => {
+  test('should mark previous schema as removed', () => {
+    const previous = createOutput({
+      indexes: [{ name: '_id_', key: { _id: 1 }, unique: true }],
+      summary: 'Users',
+      variants: [{ signature: 'abcd1234', count: 100, ratio: 1, paths: ['_id'], diff: { addedPaths: [], missingPaths: [] } }],
+      fingerprint,
+    }).collections.users!;
+
+    const preserved = preserveRemovedCollection(previous, '2024-02-01T00:00:00+09:00');
+
+    expect(preserved.removedAt).toBe('2024-02-01T00:00:00+09:00');
+    expect(preserved.warnings).toEqual([PRESERVED_WARNING]);
+    expect(preserved.indexes).toEqual(previous.indexes);
+    expect(preserved.variants).toEqual(previous.variants);
+    expect(preserved.summary).toBe('Users');
+    expect(preserved.fingerprint).toBeUndefined();
+  });
+
+  test('should keep first removal time and warning when preserved again', () => {
+    const previous = createOutput({
+      warnings: [PRESERVED_WARNING],
+      removedAt: '2024-01-01T00:00:00+09:00',
+    }).collections.users!;
+
+    const preserved = preserveRemovedCollection(previous, '2024-02-01T00:00:00+09:00');
+
+    expect(preserved.removedAt).toBe('2024-01-01T00:00:00+09:00');
+    expect(preserved.warnings).toEqual([PRESERVED_WARNING]);
+  });
+});
+
+describe('hashObject', () => {
+  test('should include nested values regardless of key order', () => {
+    const base = hashObject([{ name: 'email_1', key: { email: 1 }, unique: true }]);
+
+    expect(hashObject([{ unique: true, key: { email: 1 }, name: 'email_1' }])).toBe(base);
+    expect(hashObject([{ name: 'email_1', key: { email: 1 }, unique: false }])).not.toBe(base);
+  });
+});
@@ -1,8 +1,8 @@
 import { test, expect, describe } from 'bun:test';
 import { BsonType, detectBsonType } from '../../../src/types/bson';
 import { getTypeDistribution, hasMixedTypes, isNumericType } from '../../../src/core/infer/analyzer';
-import { aggregatePath, aggregateAll } from '../../../src/core/infer/aggregator';
-import { calculateStats, percentile, stdDev } from '../../../src/core/infer/stats';
+import { aggregatePath, aggregateAll, applyExactStats } from '../../../src/core/infer/aggregator';
+import { calculateStats, histogram, percentile, stdDev, wilsonInterval } from '../../../src/core/infer/stats';
 import type { PathValue } from '../../../src/types/schema';
 
 describe('detectBsonType', () => {
@@ -115,6 +115,17 @@ describe('calculateStats', () => {
     expect(stats.avg).toBe(30);
   });
 
+  test('should calculate distribution statistics', () => {
+    const stats = calculateStats([-10, 0, 0, 10, 20, 30, 40, 50, 60, 100]);
+
+    expect(stats.p50).toBe(25);
+    expect(stats.p90).toBeCloseTo(64);
+    expect(stats.zeroCount).toBe(2);
+    expect(stats.negativeCount).toBe(1);
+    expect(stats.histogram).toEqual([3, 1, 1, 1, 1, 1, 1, 0, 0, 1]);
+    expect(stats.stdDev).toBeGreaterThan(0);
+  });
+
   test('should handle single value', () => {
     const stats = calculateStats([42]);
 
@@ -143,6 +154,16 @@ describe('percentile', () => {
   });
 });
 
+describe('histogram', () => {
+  test('should put the maximum into the last bin', () => {
+    expect(histogram([0, 5, 10], 2)).toEqual([1, 2]);
+  });
+
+  test('should use a single bin when all values are equal', () => {
+    expect(histogram([7, 7, 7])).toEqual([3]);
+  });
+});
+
 describe('stdDev', () => {
   test('should calculate standard deviation', () => {
     const values = [2, 4, 4, 4, 5, 5, 7, 9];
@@ -153,6 +174,21 @@ describe('stdDev', () => {
   });
 });
 
+describe('wilsonInterval', () => {
+  test('should bound interval within [0, 1]', () => {
+    expect(wilsonInterval(100, 100)).toEqual({ lower: 0.963, upper: 1 });
+    expect(wilsonInterval(0, 100)).toEqual({ lower: 0, upper: 0.037 });
+  });
+
+  test('should widen for smaller samples', () => {
+    const small = wilsonInterval(9, 10);
+    const large = wilsonInterval(900, 1000);
+
+    expect(small.upper - small.lower).toBeGreaterThan(large.upper - large.lower);
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+});
+
 describe('aggregatePath', () => {
   test('should calculate presence ratio', () => {
     const values: PathValue[] = [
@@ -167,6 +203,17 @@ describe('aggregatePath', () => {
     expect(schema.absentCount).toBe(2);
   });
 
+  test('should coarsen date ranges of PII fields and under redact all', () => {
+    const values: PathValue[] = [
+      { value: new Date('1988-04-17T00:00:00Z'), type: BsonType.Date, docIndex: 0 },
+      { value: new Date('1995-11-02T00:00:00Z'), type: BsonType.Date, docIndex: 1 },
+    ];
+
+    expect(aggregatePath('birthDate', values, { totalDocs: 2 }).dateProfile?.earliest).toBe('1988-04');
+    expect(aggregatePath('createdAt', values, { totalDocs: 2 }).dateProfile?.earliest).toBe('1988-04-17T00:00:00.000Z');
+    expect(aggregatePath('createdAt', values, { totalDocs: 2, redact: 'all' }).dateProfile?.latest).toBe('1995-11');
+  });
+
   test('should detect optional fields', () => {
     const values: PathValue[] = [
       { value: 'a', type: BsonType.String, docIndex: 0 },
@@ -180,6 +227,23 @@ describe('aggregatePath', () => {
     expect(schema.optional).toBe(true);
   });
 
+  test('should flag uncertain when interval straddles optional threshold', () => {
+    const values: PathValue[] = Array.from({ length: 97 }, (_, i) => ({
+      value: 'a',
+      type: BsonType.String,
+      docIndex: i,
+    }));
+
+    const schema = aggregatePath('field', values, { totalDocs: 100, optionalThreshold: 0.95 });
+    const certain = aggregatePath('field', values.slice(0, 50), { totalDocs: 100, optionalThreshold: 0.95 });
+
+    expect(schema.optional).toBe(false);
+    expect(schema.uncertain).toBe(true);
+    expect(schema.presentInterval).toEqual({ lower: 0.915, upper: 0.99 });
+    expect(schema.typeIntervals?.[BsonType.String]).toEqual({ lower: 0.962, upper: 1 });
+    expect(certain.uncertain).toBe(false);
+  });
+
   test('should detect mixed types', () => {
     const values: PathValue[] = [
       { value: 'a', type: BsonType.String, docIndex: 0 },
@@ -207,6 +271,34 @@ describe('aggregatePath', () => {
   });
 });
 
+describe('applyExactStats', () => {
+  test('should replace sampled statistics with full-scan counts', () => {
+    const values: PathValue[] = Array.from({ length: 10 }, (_, i) => ({
+      value: 'a',
+      type: BsonType.String,
+      docIndex: i,
+    }));
+    const sampled = aggregatePath('field', values, { totalDocs: 10 });
+
+    const field = applyExactStats(
+      sampled,
+      { presentCount: 900, typeCounts: { [BsonType.String]: 850, [BsonType.Int]: 50 } },
+      1000
+    );
+
+    expect(sampled.optional).toBe(false);
+    expect(field.presentRatio).toBe(0.9);
+    expect(field.absentCount).toBe(100);
+    expect(field.optional).toBe(true);
+    expect(field.mixedType).toBe(true);
+    expect(field.typeRatio[BsonType.Int]).toBeCloseTo(50 / 900);
+    expect(field.presentInterval).toBeUndefined();
+    expect(field.uncertain).toBe(false);
+    expect(field.exact).toBe(true);
+    expect(field.examples).toEqual(sampled.examples);
+  });
+});
+
 describe('aggregateAll', () => {
   test('should aggregate all paths', () => {
     const paths = new Map<string, PathValue[]>([
@@ -233,6 +325,27 @@ describe('aggregateAll', () => {
     expect(schemas[0].path).toBe('tags');
   });
 
+  test('should record array element types on the array field', () => {
+    const paths = new Map<string, PathValue[]>([
+      ['tags', [{ value: ['a', 'b', 1], type: BsonType.Array, docIndex: 0 }]],
+      [
+        'tags.[*]',
+        [
+          { value: 'a', type: BsonType.String, docIndex: 0 },
+          { value: 'b', type: BsonType.String, docIndex: 0 },
+          { value: 1, type: BsonType.Int, docIndex: 0 },
+          { value: '[string]', type: BsonType.String, docIndex: 0 }, // 타입 표식 - 제외
+          { value: '[int]', type: BsonType.Int, docIndex: 0 },
+        ],
+      ],
+    ]);
+
+    const schemas = aggregateAll(paths, { totalDocs: 1 });
+
+    expect(schemas[0]?.elementTypes?.[BsonType.String]).toBeCloseTo(2 / 3);
+    expect(schemas[0]?.elementTypes?.[BsonType.Int]).toBeCloseTo(1 / 3);
+  });
+
   test('should include array child fields', () => {
     const paths = new Map<string, PathValue[]>([
       ['agreements', [{ value: [{ _id: '1' }], type: BsonType.Array, docIndex: 0 }]],
@@ -0,0 +1,237 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  collectForeignKeyFields,
+  inferForeignKeyContext,
+  inferRelations,
+} from '../../../src/core/relations/foreignKeys';
+import { collectReferenceSamples, verifyRelations } from '../../../src/core/relations/verifier';
+import type { IdLookup } from '../../../src/types/relation';
+import { ObjectId } from 'mongodb';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.ObjectId]: 1 },
+    typeCounts: { [BsonType.ObjectId]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+  };
+}
+
+function createCollection(name: string, paths: string[]): CollectionSchema {
+  return {
+    name,
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields: paths.map(createFieldSchema),
+    variants: [],
+    warnings: [],
+  };
+}
+
+const schemas = [
+  createCollection('users', ['_id', 'name']),
+  createCollection('categories', ['_id']),
+  createCollection('orders', ['_id', 'userId', 'paid', 'items.[*].category_id', 'author._id', 'externalId']),
+];
+
+describe('collectForeignKeyFields', () => {
+  test('should collect *Id, *_id and *Uuid fields', () => {
+    const keys = [...collectForeignKeyFields(schemas).keys()];
+
+    expect(keys).toContain('orders.userId');
+    expect(keys).toContain('orders.items.[*].category_id');
+    expect(keys).not.toContain('users.name');
+  });
+});
+
+describe('inferForeignKeyContext', () => {
+  test('should match similar foreign key field names', () => {
+    const context = inferForeignKeyContext('userId', collectForeignKeyFields(schemas));
+
+    expect(context).toContain('orders.userId');
+  });
+});
+
+describe('inferRelations', () => {
+  test('should resolve reference fields to collections by name', () => {
+    const relations = inferRelations(schemas);
+
+    expect(relations).toContainEqual({ from: 'orders', path: 'userId', to: 'users' });
+    expect(relations).toContainEqual({ from: 'orders', path: 'items.[*].category_id', to: 'categories' });
+  });
+
+  test('should ignore primary keys and unmatched names', () => {
+    const relations = inferRelations(schemas);
+    const paths = relations.map((r) => `${r.from}.${r.path}`);
+
+    expect(paths).not.toContain('users._id');
+    expect(paths).not.toContain('orders.paid');
+    expect(paths).not.toContain('orders.externalId');
+    expect(paths).not.toContain('orders.author._id');
+  });
+
+  test('should resolve nested _id by parent field name', () => {
+    const relations = inferRelations([...schemas, createCollection('authors', ['_id'])]);
+
+    expect(relations).toContainEqual({ from: 'orders', path: 'author._id', to: 'authors' });
+  });
+});
+
+describe('collectReferenceSamples', () => {
+  const userA = new ObjectId();
+  const userB = new ObjectId();
+  const tag = new ObjectId();
+
+  test('should collect ObjectId and UUID values except top-level _id', () => {
+    const samples = collectReferenceSamples([
+      { _id: new ObjectId(), userId: userA, name: 'x', token: '3f1c2b9a-8d4e-4f6a-9b2c-1d2e3f4a5b6c' },
+      { _id: new ObjectId(), userId: userB, name: 'y' },
+    ]);
+    const paths = samples.map((s) => s.path).sort();
+
+    expect(paths).toEqual(['token', 'userId']);
+    expect(samples.find((s) => s.path === 'userId')?.values).toHaveLength(2);
+  });
+
+  test('should track repeats and array traversal', () => {
+    const samples = collectReferenceSamples([
+      { userId: userA, tagIds: [tag], items: [{ productId: tag }] },
+      { userId: userA, tagIds: [tag] },
+    ]);
+
+    const userId = samples.find((s) => s.path === 'userId');
+    expect(userId?.distinctCount).toBe(1);
+    expect(userId?.occurrences).toBe(2);
+    expect(userId?.viaArray).toBe(false);
+    expect(samples.find((s) => s.path === 'tagIds')?.viaArray).toBe(true);
+    expect(samples.find((s) => s.path === 'items.[*].productId')?.viaArray).toBe(true);
+  });
+
+  test('should cap values per field', () => {
+    const docs = Array.from({ length: 5 }, () => ({ userId: new ObjectId() }));
+    const [sample] = collectReferenceSamples(docs, { maxValues: 3 });
+
+    expect(sample?.values).toHaveLength(3);
+    expect(sample?.distinctCount).toBe(5);
+  });
+});
+
+describe('verifyRelations', () => {
+  const targets = [createCollection('users', ['_id']), createCollection('orders', ['_id'])];
+  const userIds = Array.from({ length: 10 }, () => new ObjectId());
+
+  function createLookup(matches: Record<string, number>): IdLookup {
+    return async (collection) => matches[collection] ?? 0;
+  }
+
+  test('should report match rate, cardinality and confidence', async () => {
+    const samples = new Map([
+      [
+        'orders',
+        collectReferenceSamples(userIds.map((userId, i) => ({ userId: i < 5 ? userIds[0] : userId }))),
+      ],
+    ]);
+    const relations = await verifyRelations(samples, targets, createLookup({ users: 6 }));
+
+    expect(relations).toEqual([
+      { from: 'orders', path: 'userId', to: 'users', cardinality: '1:N', sampledValues: 6, matchRate: 1, confidence: 0.6 },
+    ]);
+  });
+
+  test('should drop relations below minimum match rate', async () => {
+    const samples = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ ownerRef: userId })))]]);
+    const relations = await verifyRelations(samples, targets, createLookup({ users: 4 }));
+
+    expect(relations).toEqual([]);
+  });
+
+  test('should lower confidence when field name does not point to target', async () => {
+    const samples = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ ownerRef: userId })))]]);
+    const [relation] = await verifyRelations(samples, targets, createLookup({ users: 10 }));
+
+    expect(relation?.confidence).toBe(0.9);
+  });
+
+  test('should not infer 1:1 from distinct sampled values alone', async () => {
+    const samples = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ userId })))]]);
+
+    const [relation] = await verifyRelations(samples, targets, createLookup({ users: 10 }));
+
+    expect(relation?.cardinality).toBe('1:N');
+  });
+
+  test('should decide 1:1 from a unique index or a server-side duplicate check', async () => {
+    const samples = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ userId })))]]);
+    const indexed = [
+      createCollection('users', ['_id']),
+      { ...createCollection('orders', ['_id']), indexes: [{ name: 'userId_1', key: { userId: 1 }, unique: true }] },
+    ];
+
+    const [byIndex] = await verifyRelations(samples, indexed, createLookup({ users: 10 }));
+    const [unique] = await verifyRelations(samples, targets, createLookup({ users: 10 }), {}, async () => false);
+    const [shared] = await verifyRelations(samples, targets, createLookup({ users: 10 }), {}, async () => true);
+
+    expect(byIndex?.cardinality).toBe('1:1');
+    expect(unique?.cardinality).toBe('1:1');
+    expect(shared?.cardinality).toBe('1:N');
+  });
+
+  test('should stop at the name-inferred target and cap the fan-out otherwise', async () => {
+    const many = [
+      ...targets,
+      ...Array.from({ length: 8 }, (_, i) => createCollection(`archive${i}`, ['_id'])),
+    ];
+    const calls: string[] = [];
+    const lookup: IdLookup = async (collection) => {
+      calls.push(collection);
+      return collection === 'users' ? 10 : 0;
+    };
+
+    const named = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ userId })))]]);
+    await verifyRelations(named, many, lookup);
+    expect(calls).toEqual(['users']);
+
+    calls.length = 0;
+    const unnamed = new Map([['orders', collectReferenceSamples(userIds.map((userId) => ({ ownerRef: userId })))]]);
+    await verifyRelations(unnamed, many, lookup, { maxFanOut: 3 });
+    expect(calls).toHaveLength(3);
+  });
+
+  test('should rank fan-out candidates by name similarity before capping', async () => {
+    const many = [
+      ...Array.from({ length: 6 }, (_, i) => createCollection(`archive${i}`, ['_id'])),
+      createCollection('buyer_profiles', ['_id']),
+    ];
+    const lookup: IdLookup = async (collection) => (collection === 'buyer_profiles' ? 10 : 0);
+    const samples = new Map([['orders', collectReferenceSamples(userIds.map((buyerId) => ({ buyerId })))]]);
+
+    const relations = await verifyRelations(samples, many, lookup);
+
+    expect(relations.map((r) => r.to)).toEqual(['buyer_profiles']);
+  });
+
+  test('should skip targets whose _id type differs', async () => {
+    const samples = new Map([['orders', collectReferenceSamples([{ userId: userIds[0] }])]]);
+    const calls: string[] = [];
+    const lookup: IdLookup = async (collection) => {
+      calls.push(collection);
+      return 0;
+    };
+    const stringIds = createCollection('codes', []);
+    stringIds.fields.push({ ...createFieldSchema('_id'), typeRatio: { [BsonType.String]: 1 } });
+
+    await verifyRelations(samples, [...targets, stringIds], lookup);
+
+    expect(calls.sort()).toEqual(['orders', 'users']);
+  });
+});
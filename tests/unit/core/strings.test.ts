@@ -0,0 +1,54 @@
+import { test, expect, describe } from 'bun:test';
+import { detectStringFormat, profileStrings } from '../../../src/core/infer/strings';
+import { BsonType } from '../../../src/types/bson';
+import type { PathValue } from '../../../src/types/schema';
+
+function strings(values: string[]): PathValue[] {
+  return values.map((value, docIndex) => ({ value, type: BsonType.String, docIndex }));
+}
+
+describe('detectStringFormat', () => {
+  test('should detect common formats', () => {
+    expect(detectStringFormat('2024-01-15')).toBe('iso-date');
+    expect(detectStringFormat('2024-01-15T09:30:00.000Z')).toBe('iso-date');
+    expect(detectStringFormat('12.50')).toBe('numeric');
+    expect(detectStringFormat('507f1f77bcf86cd799439011')).toBe('object-id');
+    expect(detectStringFormat('550e8400-e29b-41d4-a716-446655440000')).toBe('uuid');
+    expect(detectStringFormat('https://example.com/a?b=1')).toBe('url');
+    expect(detectStringFormat('user@example.com')).toBe('email');
+    expect(detectStringFormat('aGVsbG8gd29ybGQhIQ==')).toBe('base64');
+    expect(detectStringFormat('{"a": [1, 2]}')).toBe('json');
+  });
+
+  test('should not detect plain text', () => {
+    expect(detectStringFormat('hello world')).toBeNull();
+    expect(detectStringFormat('administrators')).toBeNull();
+    expect(detectStringFormat('{not json')).toBeNull();
+  });
+});
+
+describe('profileStrings', () => {
+  test('should calculate length, blank and charset ratios', () => {
+    const profile = profileStrings(strings(['abc', '', '  ', '가나다라']));
+
+    expect(profile).toMatchObject({
+      minLength: 0,
+      maxLength: 4,
+      avgLength: 2.25,
+      emptyRatio: 0.25,
+      whitespaceRatio: 0.25,
+      nonAsciiRatio: 0.25,
+      formats: {},
+    });
+  });
+
+  test('should record formats seen in at least half of the values', () => {
+    const profile = profileStrings(strings(['2024-01-01', '2024-02-01', '2024-03-01', '12']));
+
+    expect(profile?.formats).toEqual({ 'iso-date': 0.75 });
+  });
+
+  test('should ignore non-string values', () => {
+    expect(profileStrings([{ value: 1, type: BsonType.Int, docIndex: 0 }])).toBeNull();
+  });
+});
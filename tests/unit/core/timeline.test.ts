@@ -0,0 +1,96 @@
+import { test, expect, describe } from 'bun:test';
+import { ObjectId } from 'mongodb';
+import { analyzeTimeline, extractDocumentTime } from '../../../src/core/timeline/evolution';
+import { flatten, mergeFlattenResults } from '../../../src/core/flatten/flattener';
+import { aggregateAll } from '../../../src/core/infer/aggregator';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const START = Date.UTC(2024, 0, 1) / 1000;
+
+/**
+ * i번째 날에 생성된 문서 목록 생성
+ */
+function createDocuments(count: number, build: (i: number) => Record<string, unknown>): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, i) => ({
+    _id: ObjectId.createFromTime(START + i * DAY_SECONDS),
+    ...build(i),
+  }));
+}
+
+function analyze(documents: Record<string, unknown>[], timeField?: string) {
+  const merged = mergeFlattenResults(documents.map((doc, idx) => flatten(doc, idx)));
+  const fields = aggregateAll(merged.paths, { totalDocs: documents.length });
+  return analyzeTimeline(documents, merged.paths, fields, { timeField });
+}
+
+describe('extractDocumentTime', () => {
+  test('should use ObjectId creation time by default', () => {
+    const doc = { _id: ObjectId.createFromTime(START) };
+
+    expect(extractDocumentTime(doc)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  test('should use nested time field when given', () => {
+    const createdAt = new Date('2023-05-01T00:00:00Z');
+
+    expect(extractDocumentTime({ meta: { createdAt } }, 'meta.createdAt')).toBe(createdAt);
+    expect(extractDocumentTime({ _id: ObjectId.createFromTime(START) }, 'createdAt')).toBeNull();
+    expect(extractDocumentTime({ _id: 'custom' })).toBeNull();
+  });
+});
+
+describe('analyzeTimeline', () => {
+  test('should detect new and deprecated fields across buckets', () => {
+    const documents = createDocuments(40, (i) => ({
+      name: `user${i}`,
+      ...(i < 20 ? { legacyCode: 'x' } : {}),
+      ...(i >= 30 ? { profile: { nickname: 'n' } } : {}),
+    }));
+
+    const result = analyze(documents);
+
+    expect(result?.timeline.field).toBe('_id');
+    expect(result?.timeline.buckets.map((b) => b.count)).toEqual([10, 10, 10, 10]);
+    expect(result?.timeline.buckets[0]?.start).toBe('2024-01-01T00:00:00.000Z');
+
+    const legacy = result?.fields.get('legacyCode');
+    expect(legacy?.trend).toBe('deprecated');
+    expect(legacy?.presentRatios).toEqual([1, 1, 0, 0]);
+    expect(legacy?.lastSeen).toBe('2024-01-20T00:00:00.000Z');
+
+    const nickname = result?.fields.get('profile.nickname');
+    expect(nickname?.trend).toBe('new');
+    expect(nickname?.firstSeen).toBe('2024-01-31T00:00:00.000Z');
+
+    expect(result?.fields.get('name')?.trend).toBe('stable');
+  });
+
+  test('should detect growing and declining presence', () => {
+    const documents = createDocuments(20, (i) => ({
+      ...(i % 4 === 0 || i >= 10 ? { tags: ['a'] } : {}),
+      ...(i < 10 || i % 4 === 0 ? { note: 'n' } : {}),
+    }));
+
+    const result = analyze(documents);
+
+    expect(result?.fields.get('tags')?.trend).toBe('growing');
+    expect(result?.fields.get('note')?.trend).toBe('declining');
+  });
+
+  test('should not label sparse fields new or deprecated from small buckets', () => {
+    // 5개 문서 구간에서 20% 출현 필드는 첫 구간에 우연히 0일 수 있음
+    const documents = createDocuments(20, (i) => (i % 5 === 4 && i !== 4 ? { promo: 'x' } : {}));
+
+    const result = analyze(documents);
+
+    expect(result?.fields.get('promo')?.presentRatios).toEqual([0, 0.2, 0.2, 0.2]);
+    expect(result?.fields.get('promo')?.trend).not.toBe('new');
+  });
+
+  test('should return null when too few documents have a time', () => {
+    const documents = createDocuments(8, () => ({ name: 'a' }));
+
+    expect(analyze(documents)).toBeNull();
+    expect(analyze(createDocuments(40, () => ({ name: 'a' })), 'createdAt')).toBeNull();
+  });
+});
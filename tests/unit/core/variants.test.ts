@@ -6,6 +6,7 @@ import {
   analyzeVariants,
 } from '../../../src/core/variants/signature';
 import { diffPaths, calculateSimilarity, formatDiff } from '../../../src/core/variants/differ';
+import { detectDiscriminator } from '../../../src/core/variants/discriminator';
 
 describe('generateSignature', () => {
   test('should generate consistent signatures', () => {
@@ -227,3 +228,71 @@ describe('formatDiff', () => {
     expect(formatted).toBe('-');
   });
 });
+
+describe('detectDiscriminator', () => {
+  const documents = [
+    { kind: 'click', target: 'button', status: 'ok' },
+    { kind: 'click', target: 'link', status: 'ok' },
+    { kind: 'view', page: '/home', status: 'ok' },
+    { kind: 'view', page: '/about', status: 'failed' },
+  ];
+
+  test('should detect field whose values separate variants', () => {
+    const variants = analyzeVariants(documents);
+    const result = detectDiscriminator(documents, variants);
+
+    expect(result?.field).toBe('kind');
+    expect(result?.variants.map((v) => v.discriminatorValues)).toEqual([['click'], ['view']]);
+  });
+
+  test('should group several shapes under one discriminator value', () => {
+    const docs = [
+      { kind: 'click', target: 'button' },
+      { kind: 'click', target: 'link', meta: { x: 1 } },
+      { kind: 'view', page: '/home' },
+      { kind: 'view', page: '/about' },
+    ];
+    const result = detectDiscriminator(docs, analyzeVariants(docs));
+
+    expect(result?.field).toBe('kind');
+    expect(result?.variants.map((v) => v.discriminatorValues?.join()).sort()).toEqual(['click', 'click', 'view']);
+  });
+
+  test('should reject fields where one variant spans several values', () => {
+    const docs = [
+      { kind: 'a', x: 1 },
+      { kind: 'b', x: 2 },
+      { kind: 'c', y: 1 },
+      { kind: 'c', y: 2 },
+    ];
+    expect(detectDiscriminator(docs, analyzeVariants(docs))).toBeNull();
+  });
+
+  test('should return null for a single variant', () => {
+    const docs = [{ kind: 'a' }, { kind: 'b' }];
+    expect(detectDiscriminator(docs, analyzeVariants(docs))).toBeNull();
+  });
+
+  test('should reject fields whose values overlap between variants', () => {
+    const docs = [
+      { status: 'ok', a: 1 },
+      { status: 'ok', a: 2 },
+      { status: 'ok', b: 1 },
+      { status: 'ok', b: 2 },
+    ];
+    expect(detectDiscriminator(docs, analyzeVariants(docs))).toBeNull();
+  });
+
+  test('should reject high-cardinality fields without a preferred name', () => {
+    const docs = [
+      { name: 'alice', a: 1 },
+      { name: 'bob', b: 1 },
+    ];
+    expect(detectDiscriminator(docs, analyzeVariants(docs))).toBeNull();
+  });
+
+  test('should respect maxValues', () => {
+    const variants = analyzeVariants(documents);
+    expect(detectDiscriminator(documents, variants, { maxValues: 1 })).toBeNull();
+  });
+});
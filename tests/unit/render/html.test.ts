@@ -286,6 +286,43 @@ describe('renderFieldsHtmlTable', () => {
     expect(html).toContain('Mixed');
   });
 
+  test('should note dynamic-key maps', () => {
+    const fields = [createFieldSchema('stats', { typeRatio: { [BsonType.Object]: 1 }, mapKeys: 'date' })];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('Map (date keys)');
+  });
+
+  test('should render confidence intervals and uncertain flag', () => {
+    const fields = [
+      createFieldSchema('value', {
+        presentRatio: 0.97,
+        presentInterval: { lower: 0.915, upper: 0.99 },
+        typeRatio: { [BsonType.String]: 0.6, [BsonType.Int]: 0.4 },
+        typeIntervals: {
+          [BsonType.String]: { lower: 0.5, upper: 0.69 },
+          [BsonType.Int]: { lower: 0.31, upper: 0.5 },
+        },
+        uncertain: true,
+      }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('<td>97% (92–99%)</td>');
+    expect(html).toContain('string(60%, 50–69%), int(40%, 31–50%)');
+    expect(html).toContain('<td>No (uncertain)</td>');
+  });
+
+  test('should mark exact statistics', () => {
+    const fields = [createFieldSchema('value', { presentRatio: 0.9, exact: true })];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('<td>90% (exact)</td>');
+  });
+
   test('should handle PII hints', () => {
     const fields = [
       createFieldSchema('email', {
@@ -314,6 +351,95 @@ describe('renderFieldsHtmlTable', () => {
     expect(html).toContain('max: 100.00');
   });
 
+  test('should render percentiles and histogram sparkline', () => {
+    const fields = [
+      createFieldSchema('amount', {
+        typeRatio: { [BsonType.Double]: 1 },
+        stats: { min: 0, max: 100, avg: 30, p50: 20, p90: 80, p99: 99, histogram: [8, 4, 0, 1] },
+      }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('p50: 20.00, p90: 80.00, p99: 99.00');
+    expect(html).toContain('█▅▁▂');
+  });
+
+  test('should note detected string formats', () => {
+    const profile = { minLength: 10, avgLength: 10, maxLength: 10, emptyRatio: 0, whitespaceRatio: 0, nonAsciiRatio: 0 };
+    const fields = [
+      createFieldSchema('birthday', { stringProfile: { ...profile, formats: { 'iso-date': 1 } } }),
+      createFieldSchema('ref', { stringProfile: { ...profile, formats: { 'object-id': 0.8 } } }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('Format: iso-date');
+    expect(html).toContain('Format: object-id (80%)');
+  });
+
+  test('should note date ranges and anomalies', () => {
+    const fields = [
+      createFieldSchema('birthday', {
+        typeRatio: { [BsonType.Date]: 1 },
+        dateProfile: {
+          earliest: '1970-01-01T00:00:00.000Z',
+          latest: '2031-12-31T15:00:00.000Z',
+          futureCount: 2,
+          epochCount: 3,
+          midnightRatio: 0,
+          hourCounts: [],
+          dateOnlyOffset: 9,
+        },
+      }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('Range: 1970-01-01 ~ 2031-12-31');
+    expect(html).toContain('Future: 2');
+    expect(html).toContain('Epoch (1970-01-01): 3');
+    expect(html).toContain('Date-only (UTC+9)');
+  });
+
+  test('should note array length, tuples and unbounded growth', () => {
+    const fields = [
+      createFieldSchema('location', {
+        typeRatio: { [BsonType.Array]: 1 },
+        arrayProfile: {
+          minLength: 2,
+          avgLength: 2,
+          maxLength: 2,
+          p95Length: 2,
+          emptyRatio: 0,
+          unbounded: false,
+          tuple: [BsonType.Double, BsonType.Double],
+        },
+      }),
+      createFieldSchema('events', {
+        typeRatio: { [BsonType.Array]: 1 },
+        arrayProfile: { minLength: 0, avgLength: 120, maxLength: 900, p95Length: 450, emptyRatio: 0.1, unbounded: true },
+      }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('Length: 2–2 (p95 2) | Tuple [double, double]');
+    expect(html).toContain('Length: 0–900 (p95 450) | Unbounded growth');
+  });
+
+  test('should note key candidates and low cardinality fields', () => {
+    const fields = [
+      createFieldSchema('sku', { cardinality: { distinct: 100, uniqueRatio: 1, lowCardinality: false, keyCandidate: true } }),
+      createFieldSchema('status', { cardinality: { distinct: 3, uniqueRatio: 0.03, lowCardinality: true } }),
+    ];
+
+    const html = renderFieldsHtmlTable(fields).join('\n');
+
+    expect(html).toContain('Key candidate (no unique index)');
+    expect(html).toContain('Low cardinality (~3 values)');
+  });
+
   test('should handle empty fields array', () => {
     const fields: FieldSchema[] = [];
 
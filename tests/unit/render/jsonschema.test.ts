@@ -0,0 +1,186 @@
+import { test, expect, describe } from 'bun:test';
+import { buildPathTree, renderJsonSchema, JSON_SCHEMA_DRAFT } from '../../../src/render/jsonschema/schema';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(fields: FieldSchema[], overrides: Partial<CollectionSchema> = {}): CollectionSchema {
+  return {
+    name: 'users',
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields,
+    variants: [],
+    warnings: [],
+    ...overrides,
+  };
+}
+
+describe('buildPathTree', () => {
+  test('should separate array items from properties', () => {
+    const tree = buildPathTree([
+      createFieldSchema('tags', { typeRatio: { [BsonType.Array]: 1 } }),
+      createFieldSchema('tags.[*].name'),
+    ]);
+
+    const tags = tree.properties.get('tags');
+    expect(tags?.items?.properties.has('name')).toBe(true);
+    expect(tags?.properties.size).toBe(0);
+  });
+
+  test('should unescape dotted keys', () => {
+    const tree = buildPathTree([createFieldSchema('a\\.b')]);
+
+    expect(tree.properties.has('a.b')).toBe(true);
+  });
+});
+
+describe('renderJsonSchema', () => {
+  test('should render dynamic-key maps as additionalProperties', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('stats', { typeRatio: { [BsonType.Object]: 1 }, mapKeys: 'date' }),
+        createFieldSchema('stats.{*}', { typeRatio: { [BsonType.Int]: 1 } }),
+      ])
+    );
+
+    expect(result.properties?.stats?.type).toBe('object');
+    expect(result.properties?.stats?.properties).toBeUndefined();
+    expect(result.properties?.stats?.additionalProperties).toEqual({ type: 'integer', bsonType: 'int' });
+  });
+
+  test('should render document header', () => {
+    const result = renderJsonSchema(createCollection([createFieldSchema('name')], { summary: 'User accounts' }));
+
+    expect(result.$schema).toBe(JSON_SCHEMA_DRAFT);
+    expect(result.title).toBe('users');
+    expect(result.description).toBe('User accounts');
+    expect(result.type).toBe('object');
+  });
+
+  test('should derive required from optional', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('name'),
+        createFieldSchema('nickname', { optional: true, presentRatio: 0.5, presentCount: 50 }),
+      ])
+    );
+
+    expect(result.required).toEqual(['name']);
+    expect(Object.keys(result.properties ?? {})).toEqual(['name', 'nickname']);
+  });
+
+  test('should map BSON types with bsonType extension', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('_id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('createdAt', { typeRatio: { [BsonType.Date]: 1 } }),
+      ])
+    );
+
+    expect(result.properties?._id).toEqual({
+      type: 'string',
+      pattern: '^[0-9a-fA-F]{24}$',
+      bsonType: 'objectId',
+    });
+    expect(result.properties?.createdAt?.format).toBe('date-time');
+  });
+
+  test('should use type array for simple mixed types', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('age', { typeRatio: { [BsonType.Int]: 0.8, [BsonType.Null]: 0.2 } }),
+      ])
+    );
+
+    expect(result.properties?.age?.type).toEqual(['integer', 'null']);
+    expect(result.properties?.age?.bsonType).toEqual(['int', 'null']);
+  });
+
+  test('should render observed enum values including null', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('status', {
+          typeRatio: { [BsonType.String]: 0.9, [BsonType.Null]: 0.1 },
+          enumValues: [
+            { value: 'active', count: 60 },
+            { value: 'banned', count: 30 },
+          ],
+        }),
+      ])
+    );
+
+    expect(result.properties?.status?.enum).toEqual(['active', 'banned', null]);
+  });
+
+  test('should use anyOf when mixed types need extra keywords', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('ref', { typeRatio: { [BsonType.ObjectId]: 0.5, [BsonType.String]: 0.5 } }),
+      ])
+    );
+
+    expect(result.properties?.ref?.anyOf).toHaveLength(2);
+  });
+
+  test('should nest subdocuments and array items', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('profile', { typeRatio: { [BsonType.Object]: 1 }, optional: true, presentCount: 40 }),
+        createFieldSchema('profile.city', { optional: true, presentCount: 40 }),
+        createFieldSchema('profile.zip', { optional: true, presentCount: 10 }),
+        createFieldSchema('items', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('items.[*].sku'),
+      ])
+    );
+
+    const profile = result.properties?.profile;
+    expect(profile?.type).toBe('object');
+    expect(profile?.required).toEqual(['city']);
+    expect(Object.keys(profile?.properties ?? {})).toEqual(['city', 'zip']);
+
+    const items = result.properties?.items;
+    expect(items?.type).toBe('array');
+    expect(items?.items?.type).toBe('object');
+    expect(items?.items?.required).toEqual(['sku']);
+  });
+
+  test('should render scalar array items from element types', () => {
+    const result = renderJsonSchema(
+      createCollection([
+        createFieldSchema('tags', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.String]: 1 } }),
+        createFieldSchema('friendIds', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.ObjectId]: 1 } }),
+      ])
+    );
+
+    expect(result.properties?.tags?.items).toEqual({ type: 'string', bsonType: 'string' });
+    expect(result.properties?.friendIds?.items).toEqual({
+      type: 'string',
+      pattern: '^[0-9a-fA-F]{24}$',
+      bsonType: 'objectId',
+    });
+  });
+
+  test('should include field descriptions', () => {
+    const result = renderJsonSchema(createCollection([createFieldSchema('name', { description: '사용자 이름' })]));
+
+    expect(result.properties?.name?.description).toBe('사용자 이름');
+  });
+});
@@ -1,7 +1,7 @@
 import { test, expect, describe } from 'bun:test';
 import { renderReadme } from '../../../src/render/markdown/readme';
 import { renderCollection } from '../../../src/render/markdown/collection';
-import type { CollectionSchema, RunMeta } from '../../../src/types/schema';
+import type { CollectionSchema, FieldSchema, RunMeta } from '../../../src/types/schema';
 import { BsonType } from '../../../src/types/bson';
 
 describe('renderReadme', () => {
@@ -50,6 +50,14 @@ describe('renderReadme', () => {
     },
   ];
 
+  test('should render Mermaid ER diagram with relations', () => {
+    const result = renderReadme(mockCollections, mockMeta, [{ from: 'users', path: '_id', to: 'users' }]);
+
+    expect(result).toContain('## Entity Relationships');
+    expect(result).toContain('```mermaid\nerDiagram\n');
+    expect(result).toContain('users }o--|| users : "_id"');
+  });
+
   test('should render README header', () => {
     const result = renderReadme(mockCollections, mockMeta);
 
@@ -66,6 +74,27 @@ describe('renderReadme', () => {
     expect(result).toContain('Sample Size: 100');
   });
 
+  test('should render stratified bucket counts', () => {
+    const result = renderReadme(mockCollections, {
+      ...mockMeta,
+      sampling: {
+        ...mockMeta.sampling,
+        strategy: 'stratified',
+        buckets: 2,
+        bucketCounts: {
+          users: [
+            { start: '2023-01-01T00:00:00.000Z', end: '2023-07-01T00:00:00.000Z', count: 50 },
+            { start: '2023-07-01T00:00:00.000Z', end: '2024-01-01T00:00:00.000Z', count: 48 },
+          ],
+        },
+      },
+    });
+
+    expect(result).toContain('- Strategy: stratified');
+    expect(result).toContain('- Buckets: 2 (by _id)');
+    expect(result).toContain('| users | 2023-01-01 ~ 2024-01-01 | 50 / 48 |');
+  });
+
   test('should render collections table', () => {
     const result = renderReadme(mockCollections, mockMeta);
 
@@ -109,6 +138,26 @@ describe('renderReadme', () => {
     expect(result).toContain('## Warnings');
     expect(result).toContain('PII-suspected fields');
   });
+
+  test('should render removed collections separately', () => {
+    const removed: CollectionSchema = {
+      ...(mockCollections[0] as CollectionSchema),
+      name: 'legacy_users',
+      warnings: ['Preserved from previous run'],
+      removedAt: '2024-01-01T09:00:00+09:00',
+    };
+
+    const result = renderReadme([...mockCollections, removed], mockMeta);
+
+    expect(result).toContain('Collections: 1');
+    expect(result).toContain('Removed Collections: 1');
+    expect(result).toContain('## Removed Collections');
+    expect(result).toContain(
+      '| 🗑️ [legacy_users](./collections/legacy_users.md) | 2024-01-01T09:00:00+09:00 | ~1K | 1 |'
+    );
+    expect(result).not.toContain('| [legacy_users]');
+    expect(result).not.toContain('legacy_users {');
+  });
 });
 
 describe('renderCollection', () => {
@@ -220,4 +269,86 @@ describe('renderCollection', () => {
     expect(result).toContain('## Summary');
     expect(result).toContain('This is a test summary.');
   });
+
+  test('should render field evolution for changed fields only', () => {
+    const [idField, emailField] = mockSchema.fields as [FieldSchema, FieldSchema];
+    const result = renderCollection({
+      ...mockSchema,
+      fields: [
+        {
+          ...idField,
+          timeline: {
+            firstSeen: '2024-01-01T00:00:00.000Z',
+            lastSeen: '2024-03-01T00:00:00.000Z',
+            presentRatios: [1, 1],
+            trend: 'stable',
+          },
+        },
+        {
+          ...emailField,
+          timeline: {
+            firstSeen: '2024-02-01T00:00:00.000Z',
+            lastSeen: '2024-03-01T00:00:00.000Z',
+            presentRatios: [0, 0.9],
+            trend: 'new',
+          },
+        },
+      ],
+      timeline: {
+        field: '_id',
+        buckets: [
+          { start: '2024-01-01T00:00:00.000Z', end: '2024-01-31T00:00:00.000Z', count: 50 },
+          { start: '2024-02-01T00:00:00.000Z', end: '2024-03-01T00:00:00.000Z', count: 50 },
+        ],
+      },
+    });
+
+    expect(result).toContain('## Field Evolution');
+    expect(result).toContain('| 1 | 2024-01-01 ~ 2024-01-31 | 50 |');
+    expect(result).toContain('| email | 🆕 New | 2024-02-01 | 2024-03-01 | 0% → 90% |');
+    expect(result).not.toContain('| _id | Stable');
+    expect(renderCollection(mockSchema)).not.toContain('## Field Evolution');
+  });
+
+  test('should render adaptive sampling convergence', () => {
+    const result = renderCollection({ ...mockSchema, convergence: { batches: 3, score: 0.99, converged: true } });
+
+    expect(result).toContain('- Sampled: 100 (adaptive: converged after 3 batches, score 0.99)');
+  });
+
+  test('should render allowed values of enum fields', () => {
+    const status = {
+      ...(mockSchema.fields[1] as FieldSchema),
+      path: 'status',
+      enumValues: [
+        { value: 'active', count: 60 },
+        { value: 'banned', count: 40 },
+      ],
+    };
+    const result = renderCollection({ ...mockSchema, fields: [...mockSchema.fields, status] });
+
+    expect(result).toContain('## Allowed Values');
+    expect(result).toContain('| status | active(60%), banned(40%) |');
+    expect(renderCollection(mockSchema)).not.toContain('## Allowed Values');
+  });
+
+  test('should render numeric statistics', () => {
+    const amount: FieldSchema = {
+      ...(mockSchema.fields[1] as FieldSchema),
+      path: 'amount',
+      stats: { min: -5, max: 1000, avg: 120.456, p50: 80, p90: 300, p99: 950, stdDev: 90.1234, zeroCount: 3, negativeCount: 1 },
+    };
+    const result = renderCollection({ ...mockSchema, fields: [amount] });
+
+    expect(result).toContain('## Numeric Statistics');
+    expect(result).toContain('| amount | -5 | 80 | 300 | 950 | 1000 | 120.46 | 90.12 | 3 | 1 |');
+    expect(renderCollection(mockSchema)).not.toContain('## Numeric Statistics');
+  });
+
+  test('should render removed status for preserved collections', () => {
+    const result = renderCollection({ ...mockSchema, removedAt: '2024-01-01T09:00:00+09:00' });
+
+    expect(result).toContain('- Status: Removed (detected at 2024-01-01T09:00:00+09:00)');
+    expect(renderCollection(mockSchema)).not.toContain('Status: Removed');
+  });
 });
@@ -0,0 +1,68 @@
+import { test, expect, describe } from 'bun:test';
+import { renderErDiagram } from '../../../src/render/mermaid/erd';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, typeRatio: FieldSchema['typeRatio']): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio,
+    typeCounts: {},
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+  };
+}
+
+function createCollection(name: string, fields: FieldSchema[]): CollectionSchema {
+  return { name, estimatedCount: 100, sampledCount: 100, indexes: [], fields, variants: [], warnings: [] };
+}
+
+describe('renderErDiagram', () => {
+  const collections = [
+    createCollection('users', [createFieldSchema('_id', { [BsonType.ObjectId]: 1 })]),
+    createCollection('orders', [
+      createFieldSchema('_id', { [BsonType.ObjectId]: 1 }),
+      createFieldSchema('userId', { [BsonType.ObjectId]: 0.9, [BsonType.Null]: 0.1 }),
+      createFieldSchema('amount', { [BsonType.Int]: 0.5, [BsonType.String]: 0.5 }),
+      createFieldSchema('shipping', { [BsonType.Object]: 1 }),
+      createFieldSchema('shipping.city', { [BsonType.String]: 1 }),
+    ]),
+  ];
+
+  test('should render entities with top-level fields only', () => {
+    const result = renderErDiagram(collections, []);
+
+    expect(result.startsWith('erDiagram\n')).toBe(true);
+    expect(result).toContain('    orders {\n        objectId _id PK\n        mixed amount\n        object shipping\n');
+    expect(result).not.toContain('city');
+  });
+
+  test('should mark foreign keys and render relation edges', () => {
+    const result = renderErDiagram(collections, [{ from: 'orders', path: 'userId', to: 'users' }]);
+
+    expect(result).toContain('        objectId userId FK');
+    expect(result).toContain('    orders }o--|| users : "userId"');
+  });
+
+  test('should use notation matching verified cardinality', () => {
+    const result = renderErDiagram(collections, [
+      { from: 'orders', path: 'userId', to: 'users', cardinality: '1:1' },
+      { from: 'orders', path: 'tagIds', to: 'users', cardinality: 'N:M' },
+    ]);
+
+    expect(result).toContain('    orders |o--|| users : "userId"');
+    expect(result).toContain('    orders }o--o{ users : "tagIds"');
+  });
+
+  test('should sanitize collection names', () => {
+    const result = renderErDiagram([createCollection('fs.files', [])], []);
+
+    expect(result).toContain('    fs_files');
+  });
+});
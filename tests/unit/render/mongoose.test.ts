@@ -0,0 +1,160 @@
+import { test, expect, describe } from 'bun:test';
+import { renderMongooseSchema, toMongooseSchemaName } from '../../../src/render/mongoose/schema';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(fields: FieldSchema[], overrides: Partial<CollectionSchema> = {}): CollectionSchema {
+  return {
+    name: 'users',
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields,
+    variants: [],
+    warnings: [],
+    ...overrides,
+  };
+}
+
+describe('toMongooseSchemaName', () => {
+  test('should convert collection names to camelCase schema names', () => {
+    expect(toMongooseSchemaName('users')).toBe('usersSchema');
+    expect(toMongooseSchemaName('user_sessions')).toBe('userSessionsSchema');
+  });
+});
+
+describe('renderMongooseSchema', () => {
+  test('should render schema, collection option and model', () => {
+    const result = renderMongooseSchema(createCollection([createFieldSchema('name')]));
+
+    expect(result).toContain("import { Schema, model } from 'mongoose';");
+    expect(result).toContain('export const usersSchema = new Schema(');
+    expect(result).toContain('    name: { type: String, required: true },');
+    expect(result).toContain('  { collection: "users", versionKey: false }');
+    expect(result).toContain('export const UsersModel = model("Users", usersSchema);');
+  });
+
+  test('should keep versionKey when __v was observed', () => {
+    const result = renderMongooseSchema(
+      createCollection([createFieldSchema('__v', { typeRatio: { [BsonType.Int]: 1 } })])
+    );
+
+    expect(result).toContain('  { collection: "users" }');
+  });
+
+  test('should map BSON types and skip auto ObjectId _id', () => {
+    const result = renderMongooseSchema(
+      createCollection([
+        createFieldSchema('_id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('ownerId', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('price', { typeRatio: { [BsonType.Decimal]: 1 } }),
+        createFieldSchema('age', { typeRatio: { [BsonType.Int]: 0.7, [BsonType.Double]: 0.2, [BsonType.Null]: 0.1 } }),
+        createFieldSchema('nickname', { optional: true, presentRatio: 0.5, presentCount: 50 }),
+      ])
+    );
+
+    expect(result).not.toContain('_id:');
+    expect(result).toContain('    ownerId: { type: Schema.Types.ObjectId, required: true },');
+    expect(result).toContain('    price: { type: Schema.Types.Decimal128, required: true },');
+    expect(result).toContain('    age: { type: Number, required: true },');
+    expect(result).toContain('    nickname: { type: String },');
+  });
+
+  test('should keep non-ObjectId _id explicitly', () => {
+    const result = renderMongooseSchema(createCollection([createFieldSchema('_id')]));
+
+    expect(result).toContain('    _id: { type: String, required: true },');
+  });
+
+  test('should use Mixed for mixed-type fields', () => {
+    const result = renderMongooseSchema(
+      createCollection([
+        createFieldSchema('ref', { typeRatio: { [BsonType.ObjectId]: 0.5, [BsonType.String]: 0.5 }, mixedType: true }),
+      ])
+    );
+
+    expect(result).toContain('    ref: { type: Schema.Types.Mixed, required: true },');
+  });
+
+  test('should declare subdocument schemas for nested objects and arrays', () => {
+    const result = renderMongooseSchema(
+      createCollection([
+        createFieldSchema('profile', { typeRatio: { [BsonType.Object]: 1 } }),
+        createFieldSchema('profile.city'),
+        createFieldSchema('items', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('items.[*]._id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('items.[*].sku'),
+        createFieldSchema('tags', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.String]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain(
+      'const usersProfileSchema = new Schema(\n  {\n    city: { type: String, required: true },\n  },\n  { _id: false }\n);'
+    );
+    expect(result).toContain('const usersItemsSchema = new Schema(\n  {\n    _id:');
+    expect(result).toContain('    profile: { type: usersProfileSchema, required: true },');
+    expect(result).toContain('    items: { type: [usersItemsSchema], required: true },');
+    expect(result).toContain('    tags: { type: [String], required: true },');
+    expect(result.indexOf('const usersProfileSchema')).toBeLessThan(result.indexOf('export const usersSchema'));
+  });
+
+  test('should map scalar array elements and attach refs', () => {
+    const result = renderMongooseSchema(
+      createCollection([
+        createFieldSchema('history', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('friendIds', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('orgId', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+      ]),
+      [
+        { from: 'users', path: 'friendIds', to: 'users' },
+        { from: 'users', path: 'orgId', to: 'organizations' },
+        { from: 'orders', path: 'history', to: 'events' },
+      ]
+    );
+
+    expect(result).toContain('    history: { type: [Schema.Types.Mixed], required: true },');
+    expect(result).toContain('    friendIds: { type: [{ type: Schema.Types.ObjectId, ref: "Users" }], required: true },');
+    expect(result).toContain('    orgId: { type: Schema.Types.ObjectId, ref: "Organizations", required: true },');
+  });
+
+  test('should carry over indexes from IndexInfo', () => {
+    const result = renderMongooseSchema(
+      createCollection([createFieldSchema('email'), createFieldSchema('status'), createFieldSchema('createdAt')], {
+        indexes: [
+          { name: '_id_', key: { _id: 1 }, unique: false },
+          { name: 'email_1', key: { email: 1 }, unique: true },
+          { name: 'status_1', key: { status: 1 }, unique: false, sparse: true },
+          { name: 'status_1_createdAt_-1', key: { status: 1, createdAt: -1 }, unique: false },
+          { name: 'createdAt_1', key: { createdAt: 1 }, unique: false, expireAfterSeconds: 3600 },
+        ],
+      })
+    );
+
+    expect(result).toContain('    email: { type: String, required: true, unique: true },');
+    expect(result).toContain('    status: { type: String, required: true, index: true, sparse: true },');
+    expect(result).toContain(
+      'usersSchema.index({ status: 1, createdAt: -1 }, { name: "status_1_createdAt_-1" });'
+    );
+    expect(result).toContain(
+      'usersSchema.index({ createdAt: 1 }, { name: "createdAt_1", expireAfterSeconds: 3600 });'
+    );
+    expect(result).not.toContain('_id_');
+  });
+});
@@ -0,0 +1,251 @@
+import { test, expect, describe } from 'bun:test';
+import { renderTypeScript, renderTypeScriptIndex, toTypeName } from '../../../src/render/typescript/interface';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(fields: FieldSchema[], overrides: Partial<CollectionSchema> = {}): CollectionSchema {
+  return {
+    name: 'users',
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields,
+    variants: [],
+    warnings: [],
+    ...overrides,
+  };
+}
+
+describe('toTypeName', () => {
+  test('should convert collection names to PascalCase interface names', () => {
+    expect(toTypeName('users')).toBe('UsersDocument');
+    expect(toTypeName('user_sessions')).toBe('UserSessionsDocument');
+    expect(toTypeName('audit-log.v2')).toBe('AuditLogV2Document');
+    expect(toTypeName('2024_events')).toBe('_2024EventsDocument');
+  });
+});
+
+describe('renderTypeScript', () => {
+  test('should mark optional fields with ?:', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('name'),
+        createFieldSchema('nickname', { optional: true, presentRatio: 0.5, presentCount: 50 }),
+      ])
+    );
+
+    expect(result).toContain('export interface UsersDocument {');
+    expect(result).toContain('  name: string;');
+    expect(result).toContain('  nickname?: string;');
+  });
+
+  test('should render dynamic-key maps as index signatures', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('stats', { typeRatio: { [BsonType.Object]: 1 }, mapKeys: 'date' }),
+        createFieldSchema('stats.{*}', { typeRatio: { [BsonType.Object]: 1 } }),
+        createFieldSchema('stats.{*}.views', { typeRatio: { [BsonType.Int]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain('[key: string]: {');
+    expect(result).toContain('views: number;');
+    expect(result).not.toContain('{*}');
+  });
+
+  test('should render mixed types as unions', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('age', { typeRatio: { [BsonType.Int]: 0.6, [BsonType.Double]: 0.2, [BsonType.Null]: 0.2 } }),
+      ])
+    );
+
+    expect(result).toContain('  age: number | null;');
+  });
+
+  test('should render string enum values as literal unions', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('status', { enumValues: [{ value: 'active', count: 60 }, { value: 'banned', count: 40 }] }),
+        createFieldSchema('level', {
+          typeRatio: { [BsonType.Int]: 0.9, [BsonType.Null]: 0.1 },
+          enumValues: [{ value: 1, count: 50 }, { value: 2, count: 40 }],
+        }),
+      ])
+    );
+
+    expect(result).toContain('  status: "active" | "banned";');
+    expect(result).toContain('  level: number | null;');
+  });
+
+  test('should import BSON types from mongodb', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('_id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('price', { typeRatio: { [BsonType.Decimal]: 1 } }),
+        createFieldSchema('createdAt', { typeRatio: { [BsonType.Date]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain("import type { Decimal128, ObjectId } from 'mongodb';");
+    expect(result).toContain('  _id: ObjectId;');
+    expect(result).toContain('  createdAt: Date;');
+  });
+
+  test('should omit import line when no BSON types are used', () => {
+    const result = renderTypeScript(createCollection([createFieldSchema('name')]));
+
+    expect(result).not.toContain('import');
+  });
+
+  test('should nest subdocuments and arrays of objects', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('profile', { typeRatio: { [BsonType.Object]: 1 } }),
+        createFieldSchema('profile.city'),
+        createFieldSchema('items', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('items.[*].sku'),
+        createFieldSchema('tags', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.String]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain('  profile: {\n    city: string;\n  };');
+    expect(result).toContain('  items: {\n    sku: string;\n  }[];');
+    expect(result).toContain('  tags: string[];');
+  });
+
+  test('should render scalar arrays from element types', () => {
+    const result = renderTypeScript(
+      createCollection([
+        createFieldSchema('history', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('friendIds', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.ObjectId]: 1 } }),
+        createFieldSchema('scores', {
+          typeRatio: { [BsonType.Array]: 1 },
+          elementTypes: { [BsonType.Int]: 0.7, [BsonType.Null]: 0.3 },
+        }),
+      ])
+    );
+
+    expect(result).toContain("import type { ObjectId } from 'mongodb';");
+    expect(result).toContain('  history: unknown[];');
+    expect(result).toContain('  friendIds: ObjectId[];');
+    expect(result).toContain('  scores: (number | null)[];');
+  });
+
+  test('should quote keys that are not identifiers', () => {
+    const result = renderTypeScript(createCollection([createFieldSchema('first-name'), createFieldSchema('a\\.b')]));
+
+    expect(result).toContain('  "a.b": string;');
+    expect(result).toContain('  "first-name": string;');
+  });
+
+  test('should render descriptions as JSDoc', () => {
+    const result = renderTypeScript(
+      createCollection([createFieldSchema('name', { description: 'Display name' })], { summary: 'User accounts' })
+    );
+
+    expect(result).toContain('/** User accounts */\nexport interface UsersDocument {');
+    expect(result).toContain('  /** Display name */\n  name: string;');
+  });
+});
+
+describe('renderTypeScript with discriminator', () => {
+  const collection = createCollection(
+    [
+      createFieldSchema('kind'),
+      createFieldSchema('target', { optional: true, presentRatio: 0.5, presentCount: 50 }),
+      createFieldSchema('page', { optional: true, presentRatio: 0.5, presentCount: 50 }),
+    ],
+    {
+      name: 'events',
+      discriminator: 'kind',
+      variants: [
+        {
+          signature: 'aaaaaaaa',
+          count: 50,
+          ratio: 0.5,
+          paths: ['kind', 'target'],
+          diff: { addedPaths: [], missingPaths: [] },
+          discriminatorValues: ['click'],
+        },
+        {
+          signature: 'bbbbbbbb',
+          count: 50,
+          ratio: 0.5,
+          paths: ['kind', 'page'],
+          diff: { addedPaths: ['page'], missingPaths: ['target'] },
+          discriminatorValues: ['view'],
+        },
+      ],
+    }
+  );
+
+  test('should render one interface per variant with literal discriminator', () => {
+    const result = renderTypeScript(collection);
+
+    expect(result).toContain('export interface EventsClickDocument {\n  kind: "click";\n  target: string;\n}');
+    expect(result).toContain('export interface EventsViewDocument {\n  kind: "view";\n  page: string;\n}');
+  });
+
+  test('should render union type under collection type name', () => {
+    const result = renderTypeScript(collection);
+
+    expect(result).toContain('export type EventsDocument = EventsClickDocument | EventsViewDocument;');
+    expect(result).not.toContain('export interface EventsDocument');
+  });
+
+  test('should merge shapes sharing a discriminator value and mark partial fields optional', () => {
+    const withMeta = {
+      ...collection,
+      fields: [...collection.fields, createFieldSchema('meta', { optional: true })],
+      variants: [
+        ...collection.variants,
+        {
+          signature: 'cccccccc',
+          count: 20,
+          ratio: 0.2,
+          paths: ['kind', 'meta', 'target'],
+          diff: { addedPaths: ['meta'], missingPaths: [] },
+          discriminatorValues: ['click'],
+        },
+      ],
+    };
+
+    const result = renderTypeScript(withMeta);
+
+    expect(result).toContain('export interface EventsClickDocument {\n  kind: "click";\n  meta?: string;\n  target: string;\n}');
+    expect(result).toContain('export type EventsDocument = EventsClickDocument | EventsViewDocument;');
+  });
+
+  test('should fall back to single interface without discriminated variants', () => {
+    const result = renderTypeScript({ ...collection, discriminator: undefined });
+
+    expect(result).toContain('export interface EventsDocument {');
+    expect(result).toContain('  page?: string;');
+  });
+});
+
+describe('renderTypeScriptIndex', () => {
+  test('should re-export collection modules in name order', () => {
+    const result = renderTypeScriptIndex([createCollection([], { name: 'orders' }), createCollection([])]);
+
+    expect(result).toContain("export * from './orders';\nexport * from './users';");
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect, describe } from 'bun:test';
+import { renderCollMod, renderValidatorSchema, VALIDATOR_PRESETS } from '../../../src/render/validator/validator';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+const collection: CollectionSchema = {
+  name: 'orders',
+  estimatedCount: 100,
+  sampledCount: 100,
+  indexes: [],
+  fields: [
+    createFieldSchema('_id', { typeRatio: { [BsonType.ObjectId]: 1 } }),
+    createFieldSchema('amount', {
+      typeRatio: { [BsonType.Int]: 0.7, [BsonType.Double]: 0.2, [BsonType.String]: 0.1 },
+      mixedType: true,
+    }),
+    createFieldSchema('note', {
+      typeRatio: { [BsonType.String]: 0.6, [BsonType.Null]: 0.4 },
+      optional: true,
+      presentRatio: 0.5,
+      presentCount: 50,
+    }),
+    createFieldSchema('items', { typeRatio: { [BsonType.Array]: 1 } }),
+    createFieldSchema('items.[*].sku'),
+  ],
+  variants: [],
+  warnings: [],
+};
+
+describe('renderValidatorSchema', () => {
+  test('should require only non-optional fields in moderate mode', () => {
+    const schema = renderValidatorSchema(collection, VALIDATOR_PRESETS.moderate);
+
+    expect(schema.bsonType).toBe('object');
+    expect(schema.required).toEqual(['_id', 'amount', 'items']);
+    expect(schema.additionalProperties).toBeUndefined();
+  });
+
+  test('should merge numeric types into number alias and tolerate mixed types', () => {
+    const schema = renderValidatorSchema(collection, VALIDATOR_PRESETS.moderate);
+
+    expect(schema.properties?.amount?.bsonType).toEqual(['number', 'string']);
+    expect(schema.properties?.note?.bsonType).toEqual(['string', 'null']);
+  });
+
+  test('should keep only primary type and null in strict mode', () => {
+    const schema = renderValidatorSchema(collection, VALIDATOR_PRESETS.strict);
+
+    expect(schema.properties?.amount?.bsonType).toBe('number');
+    expect(schema.properties?.note?.bsonType).toEqual(['string', 'null']);
+    expect(schema.additionalProperties).toBe(false);
+  });
+
+  test('should not require fields in loose mode', () => {
+    const schema = renderValidatorSchema(collection, VALIDATOR_PRESETS.loose);
+
+    expect(schema.required).toBeUndefined();
+  });
+
+  test('should render array item schemas', () => {
+    const schema = renderValidatorSchema(collection);
+
+    expect(schema.properties?.items).toEqual({
+      bsonType: 'array',
+      items: {
+        bsonType: 'object',
+        properties: { sku: { bsonType: 'string' } },
+        required: ['sku'],
+      },
+    });
+  });
+});
+
+describe('renderCollMod', () => {
+  test('should render collMod-ready command', () => {
+    const command = renderCollMod(collection);
+
+    expect(command.collMod).toBe('orders');
+    expect(command.validator.$jsonSchema.bsonType).toBe('object');
+    expect(command.validationLevel).toBe('moderate');
+    expect(command.validationAction).toBe('warn');
+  });
+});
@@ -0,0 +1,131 @@
+import { test, expect, describe } from 'bun:test';
+import { renderZodIndex, renderZodSchema, toSchemaName } from '../../../src/render/zod/schema';
+import type { CollectionSchema, FieldSchema } from '../../../src/types/schema';
+import { BsonType } from '../../../src/types/bson';
+
+function createFieldSchema(path: string, overrides: Partial<FieldSchema> = {}): FieldSchema {
+  return {
+    path,
+    presentRatio: 1,
+    presentCount: 100,
+    absentCount: 0,
+    typeRatio: { [BsonType.String]: 1 },
+    typeCounts: { [BsonType.String]: 100 },
+    examples: [],
+    stats: null,
+    optional: false,
+    mixedType: false,
+    hints: [],
+    ...overrides,
+  };
+}
+
+function createCollection(fields: FieldSchema[], overrides: Partial<CollectionSchema> = {}): CollectionSchema {
+  return {
+    name: 'users',
+    estimatedCount: 100,
+    sampledCount: 100,
+    indexes: [],
+    fields,
+    variants: [],
+    warnings: [],
+    ...overrides,
+  };
+}
+
+describe('toSchemaName', () => {
+  test('should convert collection names to camelCase schema names', () => {
+    expect(toSchemaName('users')).toBe('usersDocumentSchema');
+    expect(toSchemaName('user_sessions')).toBe('userSessionsDocumentSchema');
+  });
+});
+
+describe('renderZodSchema', () => {
+  test('should export schema and inferred type', () => {
+    const result = renderZodSchema(createCollection([createFieldSchema('name')]));
+
+    expect(result).toContain("import { z } from 'zod';");
+    expect(result).toContain('export const usersDocumentSchema = z.object({\n  name: z.string(),\n});');
+    expect(result).toContain('export type UsersDocument = z.infer<typeof usersDocumentSchema>;');
+    expect(result).not.toContain("from 'mongodb'");
+  });
+
+  test('should mark optional fields with .optional()', () => {
+    const result = renderZodSchema(
+      createCollection([createFieldSchema('nickname', { optional: true, presentRatio: 0.5, presentCount: 50 })])
+    );
+
+    expect(result).toContain('  nickname: z.string().optional(),');
+  });
+
+  test('should use .nullable() when Null appears in typeRatio', () => {
+    const result = renderZodSchema(
+      createCollection([
+        createFieldSchema('age', { typeRatio: { [BsonType.Int]: 0.8, [BsonType.Null]: 0.2 } }),
+        createFieldSchema('deletedAt', { typeRatio: { [BsonType.Null]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain('  age: z.number().nullable(),');
+    expect(result).toContain('  deletedAt: z.null(),');
+  });
+
+  test('should render mixed types as unions', () => {
+    const result = renderZodSchema(
+      createCollection([
+        createFieldSchema('ref', {
+          typeRatio: { [BsonType.ObjectId]: 0.5, [BsonType.String]: 0.3, [BsonType.Null]: 0.2 },
+        }),
+      ])
+    );
+
+    expect(result).toContain("import { ObjectId } from 'mongodb';");
+    expect(result).toContain('  ref: z.union([z.instanceof(ObjectId), z.string()]).nullable(),');
+  });
+
+  test('should nest subdocuments and arrays of objects', () => {
+    const result = renderZodSchema(
+      createCollection([
+        createFieldSchema('profile', { typeRatio: { [BsonType.Object]: 1 } }),
+        createFieldSchema('profile.city'),
+        createFieldSchema('items', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('items.[*].sku'),
+        createFieldSchema('tags', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.String]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain('  profile: z.object({\n    city: z.string(),\n  }),');
+    expect(result).toContain('  items: z.array(z.object({\n    sku: z.string(),\n  })),');
+    expect(result).toContain('  tags: z.array(z.string()),');
+  });
+
+  test('should render scalar arrays from element types', () => {
+    const result = renderZodSchema(
+      createCollection([
+        createFieldSchema('history', { typeRatio: { [BsonType.Array]: 1 } }),
+        createFieldSchema('friendIds', { typeRatio: { [BsonType.Array]: 1 }, elementTypes: { [BsonType.ObjectId]: 1 } }),
+      ])
+    );
+
+    expect(result).toContain("import { ObjectId } from 'mongodb';");
+    expect(result).toContain('  history: z.array(z.unknown()),');
+    expect(result).toContain('  friendIds: z.array(z.instanceof(ObjectId)),');
+  });
+
+  test('should attach descriptions with .describe()', () => {
+    const result = renderZodSchema(
+      createCollection([createFieldSchema('name', { description: 'Display name' })], { summary: 'User accounts' })
+    );
+
+    expect(result).toContain('  name: z.string().describe("Display name"),');
+    expect(result).toContain('}).describe("User accounts");');
+  });
+});
+
+describe('renderZodIndex', () => {
+  test('should re-export collection modules in name order', () => {
+    const result = renderZodIndex([createCollection([], { name: 'orders' }), createCollection([])]);
+
+    expect(result).toContain("export * from './orders';\nexport * from './users';");
+  });
+});